@@ -1,4 +1,5 @@
 import {FailedMessage} from '../responses/sendManyDetailResponse';
+import {BulkSendChunkError} from '../responses/sendBulkResponse';
 
 export type ErrorResponse = {
   errorCode: string;
@@ -19,10 +20,103 @@ export class ApiKeyError extends Error {
   }
 }
 
+/**
+ * @description API 오류 발생 당시의 요청/응답 정보
+ * @property status HTTP 응답 상태 코드
+ * @property url 요청한 API 주소
+ * @property method 요청한 HTTP method
+ * @property response 원본 응답 데이터(JSON이 아닐 경우 응답 문자열)
+ */
+export type DefaultErrorDetail = {
+  status?: number;
+  url?: string;
+  method?: string;
+  response?: unknown;
+};
+
+/**
+ * @description API 요청 실패 시 발생하는 기본 에러, name에는 SOLAPI의 errorCode 값이 들어갑니다.
+ * 자주 발생하는 오류는 InvalidCredentialsError, InsufficientBalanceError 등 하위 에러 클래스로 발생하므로 instanceof로 구분할 수 있습니다.
+ */
 export class DefaultError extends Error {
-  constructor(errorCode: string, errorMessage: string) {
+  status?: number;
+  errorCode: string;
+  errorMessage: string;
+  url?: string;
+  method?: string;
+  response?: unknown;
+
+  constructor(
+    errorCode: string,
+    errorMessage: string,
+    detail?: DefaultErrorDetail,
+  ) {
     super(errorMessage);
     this.name = errorCode;
+    this.errorCode = errorCode;
+    this.errorMessage = errorMessage;
+    this.status = detail?.status;
+    this.url = detail?.url;
+    this.method = detail?.method;
+    this.response = detail?.response;
+  }
+}
+
+/**
+ * @description API Key, API Secret Key 또는 서명이 올바르지 않을 경우 발생하는 에러
+ */
+export class InvalidCredentialsError extends DefaultError {}
+
+/**
+ * @description 잔액 또는 포인트가 부족할 경우 발생하는 에러
+ */
+export class InsufficientBalanceError extends DefaultError {}
+
+/**
+ * @description 등록되지 않은 발신번호로 발송을 요청했을 경우 발생하는 에러
+ */
+export class UnregisteredSenderNumberError extends DefaultError {}
+
+/**
+ * @description 카카오 알림톡 템플릿이 올바르지 않거나 사용할 수 없는 상태일 경우 발생하는 에러
+ */
+export class InvalidTemplateError extends DefaultError {}
+
+/**
+ * @description API 요청 한도를 초과했을 경우 발생하는 에러
+ */
+export class RateLimitedError extends DefaultError {}
+
+/**
+ * @description 요청한 리소스(그룹, 메시지, 템플릿 등)를 찾을 수 없을 경우 발생하는 에러
+ */
+export class NotFoundError extends DefaultError {}
+
+/**
+ * @description SOLAPI 서버 내부 오류(5xx)가 발생했을 경우 발생하는 에러
+ */
+export class ServerError extends DefaultError {}
+
+/**
+ * @description API 요청이 제한 시간 내에 완료되지 않았을 경우 RequestTimeoutError 에러가 발생합니다.
+ */
+export class RequestTimeoutError extends Error {
+  timeout: number;
+
+  constructor(timeout: number) {
+    super(`${timeout}ms 내에 API 요청이 완료되지 않았습니다.`);
+    this.name = 'RequestTimeoutError';
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * @description AbortSignal을 통해 API 요청이 취소되었을 경우 RequestAbortedError 에러가 발생합니다.
+ */
+export class RequestAbortedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RequestAbortedError';
   }
 }
 
@@ -32,13 +126,206 @@ export class DefaultError extends Error {
 export class MessageNotReceivedError extends Error {
   failedMessageList: Array<FailedMessage>;
 
-  constructor(errorList: Array<FailedMessage>) {
+  /**
+   * sendBulk 메소드 호출 시 요청 자체가 실패한 묶음(chunk) 목록
+   */
+  errors: Array<BulkSendChunkError>;
+
+  constructor(
+    errorList: Array<FailedMessage>,
+    chunkErrors: Array<BulkSendChunkError> = [],
+  ) {
     const statusMessageCount = errorList.length;
     super(
       `${statusMessageCount}개의 메시지가 접수되지 못했습니다. 자세한 에러 메시지는 해당 에러 내 failedMessageList를 확인해주세요.`,
     );
     this.name = 'MessagesNotReceivedError';
     this.failedMessageList = errorList;
+    this.errors = chunkErrors;
+  }
+}
+
+/**
+ * @description sendBulk 메소드 호출 시 모든 묶음(chunk)의 요청 자체가 실패했을 경우 BulkSendError 에러가 발생합니다.
+ */
+export class BulkSendError extends Error {
+  /**
+   * 요청 자체가 실패한 묶음 목록
+   */
+  errors: Array<BulkSendChunkError>;
+
+  constructor(chunkErrors: Array<BulkSendChunkError>) {
+    const [firstChunkError] = chunkErrors;
+    const reason =
+      firstChunkError?.error instanceof Error
+        ? firstChunkError.error.message
+        : String(firstChunkError?.error);
+    super(
+      `${chunkErrors.length}개 묶음의 발송 요청이 모두 실패했습니다(${reason}). 자세한 에러는 해당 에러 내 errors를 확인해주세요.`,
+    );
+    this.name = 'BulkSendError';
+    this.errors = chunkErrors;
+  }
+}
+
+/**
+ * @description 올바르지 않은 수신/발신번호 정보
+ * @property index 발송 요청한 메시지 목록 내 순번(0부터 시작)
+ * @property field 올바르지 않은 번호가 들어있는 항목(to: 수신번호, from: 발신번호)
+ * @property phoneNumber 입력된 번호
+ * @property reason 올바르지 않은 사유
+ */
+export type InvalidRecipient = {
+  index: number;
+  field: 'to' | 'from';
+  phoneNumber: string;
+  reason: string;
+};
+
+/**
+ * @description 전화번호 형식이 올바르지 않을 경우 InvalidPhoneNumberError 에러가 발생합니다.
+ */
+export class InvalidPhoneNumberError extends Error {
+  phoneNumber: string;
+
+  constructor(phoneNumber: string, message: string) {
+    super(message);
+    this.name = 'InvalidPhoneNumberError';
+    this.phoneNumber = phoneNumber;
+  }
+}
+
+/**
+ * @description 발송 요청 전 확인한 수신/발신번호 중 올바르지 않은 번호가 있을 경우 InvalidRecipientsError 에러가 발생합니다.
+ */
+export class InvalidRecipientsError extends Error {
+  invalidRecipients: Array<InvalidRecipient>;
+
+  constructor(invalidRecipients: Array<InvalidRecipient>) {
+    super(
+      `${invalidRecipients.length}개의 전화번호가 올바르지 않습니다. 자세한 내용은 해당 에러 내 invalidRecipients를 확인해주세요.`,
+    );
+    this.name = 'InvalidRecipientsError';
+    this.invalidRecipients = invalidRecipients;
+  }
+}
+
+/**
+ * @description 치환할 값이 입력되지 않은 템플릿 변수 정보
+ * @property index 수신자 목록 내 순번(0부터 시작)
+ * @property variables 값이 입력되지 않은 변수 이름 목록
+ */
+export type MissingTemplateVariable = {
+  index: number;
+  variables: Array<string>;
+};
+
+/**
+ * @description 메시지 템플릿의 변수 중 수신자 별 값이 입력되지 않은 변수가 있을 경우 MissingTemplateVariablesError 에러가 발생합니다.
+ */
+export class MissingTemplateVariablesError extends Error {
+  missingVariables: Array<MissingTemplateVariable>;
+
+  constructor(missingVariables: Array<MissingTemplateVariable>) {
+    super(
+      `${missingVariables.length}명의 수신자에게 템플릿 변수 값이 입력되지 않았습니다. 자세한 내용은 해당 에러 내 missingVariables를 확인해주세요.`,
+    );
+    this.name = 'MissingTemplateVariablesError';
+    this.missingVariables = missingVariables;
+  }
+}
+
+/**
+ * @description 알림톡 템플릿 검증에 실패한 사유<br>
+ * TEMPLATE_NOT_FOUND: 템플릿을 찾을 수 없음, TEMPLATE_NOT_APPROVED: 검수가 완료되지 않은 템플릿, TEMPLATE_HIDDEN: 숨김 처리된 템플릿,
+ * MISSING_VARIABLES: 템플릿에서 사용하는 변수의 값이 입력되지 않음, UNKNOWN_VARIABLES: 템플릿에서 사용하지 않는 변수가 입력됨
+ */
+export type InvalidAlimtalkMessageReason =
+  | 'TEMPLATE_NOT_FOUND'
+  | 'TEMPLATE_NOT_APPROVED'
+  | 'TEMPLATE_HIDDEN'
+  | 'MISSING_VARIABLES'
+  | 'UNKNOWN_VARIABLES';
+
+/**
+ * @description 템플릿 검증에 실패한 알림톡 메시지 정보
+ * @property index 발송 요청한 메시지 목록 내 순번(0부터 시작)
+ * @property templateId 알림톡 템플릿 ID
+ * @property reason 검증 실패 사유
+ * @property message 검증 실패 사유 설명
+ * @property variables 값이 입력되지 않았거나 템플릿에서 사용하지 않는 변수 이름 목록
+ */
+export type InvalidAlimtalkMessage = {
+  index: number;
+  templateId: string;
+  reason: InvalidAlimtalkMessageReason;
+  message: string;
+  variables?: Array<string>;
+};
+
+/**
+ * @description 발송 요청 전 알림톡 템플릿 검증에 실패한 메시지가 있을 경우 InvalidAlimtalkMessagesError 에러가 발생합니다.
+ */
+export class InvalidAlimtalkMessagesError extends Error {
+  invalidMessages: Array<InvalidAlimtalkMessage>;
+
+  constructor(invalidMessages: Array<InvalidAlimtalkMessage>) {
+    super(
+      `${invalidMessages.length}건의 알림톡 메시지가 템플릿 검증에 실패했습니다. 자세한 내용은 해당 에러 내 invalidMessages를 확인해주세요.`,
+    );
+    this.name = 'InvalidAlimtalkMessagesError';
+    this.invalidMessages = invalidMessages;
+  }
+}
+
+/**
+ * @description 광고성 메시지를 야간 시간(KST 21:00 ~ 08:00)에 발송하려 할 경우 NightAdvertisingError 에러가 발생합니다.
+ */
+export class NightAdvertisingError extends Error {
+  /**
+   * 발송 요청한 메시지 목록 내 광고성 메시지의 순번 목록(0부터 시작)
+   */
+  messageIndexes: Array<number>;
+
+  /**
+   * 광고성 메시지를 발송할 수 있는 가장 가까운 시각
+   */
+  nextAdvertisingDate: Date;
+
+  constructor(messageIndexes: Array<number>, nextAdvertisingDate: Date) {
+    super(
+      `광고성 메시지는 21시부터 다음날 8시(KST)까지 발송할 수 없습니다. ${messageIndexes.length}건의 광고성 메시지가 포함되어 있습니다.`,
+    );
+    this.name = 'NightAdvertisingError';
+    this.messageIndexes = messageIndexes;
+    this.nextAdvertisingDate = nextAdvertisingDate;
+  }
+}
+
+/**
+ * @description 그룹의 현재 상태에서 할 수 없는 작업(발송 완료된 그룹에 메시지 추가 등)을 요청할 경우 InvalidGroupStateError 에러가 발생합니다.
+ */
+export class InvalidGroupStateError extends Error {
+  groupId: string;
+
+  /**
+   * 요청 당시 그룹의 상태
+   */
+  status: string;
+
+  /**
+   * 요청한 작업 이름
+   */
+  operation: string;
+
+  constructor(groupId: string, status: string, operation: string) {
+    super(
+      `${status} 상태인 그룹(${groupId})에서는 ${operation} 작업을 할 수 없습니다.`,
+    );
+    this.name = 'InvalidGroupStateError';
+    this.groupId = groupId;
+    this.status = status;
+    this.operation = operation;
   }
 }
 
@@ -0,0 +1,84 @@
+import {MessageParameter} from '../models/message';
+import {BadRequestError} from '../errors/defaultError';
+import {detectMessageType} from './messageTypeDetector';
+import {normalizePhoneNumber} from './phoneNumber';
+
+/**
+ * @name AdvertisingOptions
+ * @description 광고성 문자 발송 시 메시지 내용에 자동으로 추가할 정보
+ */
+export type AdvertisingOptions = {
+  /**
+   * "(광고)" 표기 뒤에 붙는 전송자 명칭(상호명 등)
+   */
+  senderName: string;
+
+  /**
+   * 수신자가 무료로 수신거부할 수 있는 080 전화번호
+   */
+  optOutNumber?: string;
+};
+
+const advertisingPrefix = '(광고)';
+
+/**
+ * 광고성 문자에 "(광고)" 표기, 전송자 명칭, 080 무료수신거부 번호를 추가하는 함수
+ * 이미 "(광고)"로 시작하거나 수신거부 번호가 포함된 경우 중복으로 추가하지 않으며, 내용이 길어져 SMS가 LMS로 바뀔 수 있으므로 메시지 유형을 다시 판별합니다.
+ * @param message 메시지 파라미터
+ * @param options 광고성 문자 설정
+ * @throws BadRequestError 080 수신거부 번호가 설정되지 않았거나 올바르지 않을 경우 발생합니다.
+ */
+export function applyAdvertising(
+  message: MessageParameter,
+  options?: AdvertisingOptions,
+): MessageParameter {
+  const optOutNumber = options?.optOutNumber
+    ? normalizePhoneNumber(options.optOutNumber)
+    : undefined;
+  if (!options || !optOutNumber || !optOutNumber.startsWith('080')) {
+    throw new BadRequestError(
+      '광고성 문자를 발송하려면 080 무료수신거부 번호(advertising.optOutNumber)를 설정해야 합니다.',
+    );
+  }
+  let text = message.text ?? '';
+  if (!text.trimStart().startsWith(advertisingPrefix)) {
+    text = `${advertisingPrefix}${options.senderName}\n${text}`;
+  }
+  if (!text.replace(/[\s-]/g, '').includes(optOutNumber)) {
+    text = `${text}\n무료수신거부 ${options.optOutNumber}`;
+  }
+  const advertisingMessage = {...message, text};
+  const detectedType = detectMessageType({
+    ...advertisingMessage,
+    type: undefined,
+  }).type;
+  if (message.type === undefined || message.type === 'SMS') {
+    advertisingMessage.type = detectedType;
+  }
+  return advertisingMessage;
+}
+
+/**
+ * 메시지 목록 중 광고성 문자에 "(광고)" 표기, 전송자 명칭, 080 무료수신거부 번호를 추가하는 함수
+ * 메시지 또는 요청 설정의 advertising 값이 true인 문자(SMS, LMS, MMS)에만 적용됩니다.
+ * @param messages 메시지 파라미터 목록
+ * @param options 광고성 문자 설정
+ * @param advertising 요청 설정의 광고성 문자 여부, 메시지의 advertising 값이 우선합니다.
+ * @throws BadRequestError 광고성 문자가 있는데 080 수신거부 번호가 설정되지 않았을 경우 발생합니다.
+ */
+export function applyAdvertisingMode(
+  messages: Array<MessageParameter>,
+  options?: AdvertisingOptions,
+  advertising?: boolean,
+): Array<MessageParameter> {
+  return messages.map(message => {
+    const {type} = detectMessageType(message);
+    if (
+      !(message.advertising ?? advertising) ||
+      (type !== 'SMS' && type !== 'LMS' && type !== 'MMS')
+    ) {
+      return message;
+    }
+    return applyAdvertising(message, options);
+  });
+}
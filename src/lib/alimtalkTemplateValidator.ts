@@ -0,0 +1,122 @@
+import {KakaoAlimtalkTemplate} from '../models/kakao/kakaoAlimtalkTemplate';
+import {InvalidAlimtalkMessage} from '../errors/defaultError';
+
+const templateVariablePattern = /#\{([^{}]+)\}/g;
+
+/**
+ * 알림톡 템플릿의 내용, 강조표기, 버튼 등에서 사용하는 변수 이름 목록을 가져오는 함수
+ * @param template 알림톡 템플릿
+ */
+export function getAlimtalkTemplateVariables(
+  template: KakaoAlimtalkTemplate,
+): Array<string> {
+  const sources: Array<string | null | undefined> = [
+    template.content,
+    template.emphasizeTitle,
+    template.emphasizeSubtitle,
+    template.header,
+    template.extra,
+    template.highlight?.title,
+    template.highlight?.description,
+    template.item?.summary?.title,
+    template.item?.summary?.description,
+  ];
+  template.item?.list?.forEach(item =>
+    sources.push(item.title, item.description),
+  );
+  template.buttons?.forEach(button =>
+    sources.push(
+      button.buttonName,
+      button.linkMo,
+      button.linkPc,
+      button.linkAnd,
+      button.linkIos,
+    ),
+  );
+  template.quickReplies?.forEach(quickReply =>
+    sources.push(
+      quickReply.name,
+      quickReply.linkMo,
+      quickReply.linkPc,
+      quickReply.linkAnd,
+      quickReply.linkIos,
+    ),
+  );
+
+  const variables: Array<string> = [];
+  sources.forEach(source => {
+    for (const [, name] of (source ?? '').matchAll(templateVariablePattern)) {
+      if (!variables.includes(name)) {
+        variables.push(name);
+      }
+    }
+  });
+  return variables;
+}
+
+/**
+ * 알림톡 메시지의 변수 값이 템플릿과 일치하는지, 템플릿이 발송 가능한 상태인지 확인하는 함수
+ * variables의 키는 "#{name}", "name" 형식 모두 사용할 수 있습니다.
+ * @param index 발송 요청한 메시지 목록 내 순번
+ * @param template 알림톡 템플릿
+ * @param variables 메시지의 kakaoOptions.variables 값
+ * @return 검증 실패 목록, 문제가 없을 경우 빈 배열을 반환합니다.
+ */
+export function validateAlimtalkVariables(
+  index: number,
+  template: KakaoAlimtalkTemplate,
+  variables: Record<string, string> = {},
+): Array<InvalidAlimtalkMessage> {
+  const {templateId} = template;
+  const invalidMessages: Array<InvalidAlimtalkMessage> = [];
+  if (template.status !== 'APPROVED') {
+    invalidMessages.push({
+      index,
+      templateId,
+      reason: 'TEMPLATE_NOT_APPROVED',
+      message: `검수가 완료되지 않은 템플릿입니다(상태: ${template.status}).`,
+    });
+  }
+  if (template.isHidden) {
+    invalidMessages.push({
+      index,
+      templateId,
+      reason: 'TEMPLATE_HIDDEN',
+      message: '숨김 처리된 템플릿입니다.',
+    });
+  }
+
+  const templateVariables = getAlimtalkTemplateVariables(template);
+  const inputVariables = Object.keys(variables).map(key =>
+    key.replace(/^#\{([^{}]+)\}$/, '$1'),
+  );
+  const missingVariables = templateVariables.filter(
+    name => !inputVariables.includes(name),
+  );
+  const unknownVariables = inputVariables.filter(
+    name => !templateVariables.includes(name),
+  );
+  if (missingVariables.length > 0) {
+    invalidMessages.push({
+      index,
+      templateId,
+      reason: 'MISSING_VARIABLES',
+      message: `템플릿 변수의 값이 입력되지 않았습니다: ${missingVariables.join(
+        ', ',
+      )}`,
+      variables: missingVariables,
+    });
+  }
+  if (unknownVariables.length > 0) {
+    invalidMessages.push({
+      index,
+      templateId,
+      reason: 'UNKNOWN_VARIABLES',
+      message: `템플릿에서 사용하지 않는 변수가 입력되었습니다: ${unknownVariables.join(
+        ', ',
+      )}`,
+      variables: unknownVariables,
+    });
+  }
+  return invalidMessages;
+}
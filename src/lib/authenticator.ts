@@ -3,39 +3,66 @@ import {formatISO} from 'date-fns';
 import {HmacSHA256} from 'crypto-js';
 import {ApiKeyError} from '../errors/defaultError';
 
-enum AuthenticateType {
+/**
+ * @description API 인증 방식
+ * API_KEY: API Key, API Secret Key를 이용한 HMAC-SHA256 서명 방식
+ * ACCESS_TOKEN: OAuth2 앱 등에서 발급받은 Access Token을 이용한 Bearer 방식
+ */
+export enum AuthenticateType {
   API_KEY,
+  ACCESS_TOKEN,
 }
 
 export type AuthenticationParameter = {
   apiKey?: string;
   apiSecret?: string;
+  accessToken?: string;
 };
 
+/**
+ * 인증 파라미터에 들어있는 값으로 인증 방식을 판단하는 함수
+ * @param authenticationParameter
+ */
+function getAuthenticateType(
+  authenticationParameter: AuthenticationParameter,
+): AuthenticateType {
+  if (authenticationParameter.accessToken && !authenticationParameter.apiKey) {
+    return AuthenticateType.ACCESS_TOKEN;
+  }
+  return AuthenticateType.API_KEY;
+}
+
 /**
  * Get Authenticate Information for SOLAPI Requests
  * @param authenticationParameter
- * @param authType
+ * @param authType 값 미기입시 authenticationParameter에 들어있는 값으로 판단합니다.
+ * @param date 서명에 사용할 날짜, 서버와의 시간 차이를 보정할 때 사용합니다.
  * @return string Authorization value
  */
 export default function getAuthInfo(
   authenticationParameter: AuthenticationParameter,
-  authType: AuthenticateType = AuthenticateType.API_KEY,
+  authType: AuthenticateType = getAuthenticateType(authenticationParameter),
+  date: Date = new Date(),
 ): string {
-  const {apiKey, apiSecret} = authenticationParameter;
+  const {apiKey, apiSecret, accessToken} = authenticationParameter;
   switch (authType) {
+    case AuthenticateType.ACCESS_TOKEN:
+      if (!accessToken || accessToken === '') {
+        throw new ApiKeyError('Invalid Access Token Error');
+      }
+      return `Bearer ${accessToken}`;
     case AuthenticateType.API_KEY:
     default:
       const salt = customAlphabet(
         '1234567890abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ',
         32,
       )();
-      const date = formatISO(new Date());
-      const hmacData = date + salt;
+      const formattedDate = formatISO(date);
+      const hmacData = formattedDate + salt;
       if (!apiKey || !apiSecret || apiKey === '' || apiSecret === '') {
         throw new ApiKeyError('Invalid API Key Error');
       }
       const signature = HmacSHA256(hmacData, apiSecret).toString();
-      return `HMAC-SHA256 apiKey=${apiKey}, date=${date}, salt=${salt}, signature=${signature}`;
+      return `HMAC-SHA256 apiKey=${apiKey}, date=${formattedDate}, salt=${salt}, signature=${signature}`;
   }
 }
@@ -0,0 +1,39 @@
+import {MessageParameter} from '../models/message';
+
+/**
+ * 메시지 목록을 수신번호 수 기준으로 chunkSize 이하의 묶음(chunk)으로 나누는 함수
+ * 하나의 메시지에 chunkSize를 넘는 수신번호가 들어있을 경우 수신번호 목록을 나누어 여러 메시지로 만듭니다.
+ * @param messages 메시지 목록
+ * @param chunkSize 한 묶음에 들어갈 최대 수신번호 수
+ */
+export default function chunkMessages(
+  messages: Array<MessageParameter>,
+  chunkSize: number,
+): Array<Array<MessageParameter>> {
+  const chunks: Array<Array<MessageParameter>> = [];
+  let current: Array<MessageParameter> = [];
+  let currentSize = 0;
+  const push = (message: MessageParameter, size: number) => {
+    if (currentSize + size > chunkSize) {
+      chunks.push(current);
+      current = [];
+      currentSize = 0;
+    }
+    current.push(message);
+    currentSize += size;
+  };
+  messages.forEach(message => {
+    if (!Array.isArray(message.to) || message.to.length <= chunkSize) {
+      push(message, Array.isArray(message.to) ? message.to.length : 1);
+      return;
+    }
+    for (let index = 0; index < message.to.length; index += chunkSize) {
+      const to = message.to.slice(index, index + chunkSize);
+      push({...message, to}, to.length);
+    }
+  });
+  if (current.length > 0) {
+    chunks.push(current);
+  }
+  return chunks;
+}
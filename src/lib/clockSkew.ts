@@ -0,0 +1,42 @@
+/**
+ * 응답의 Date 헤더를 통해 SOLAPI 서버와 로컬 시간의 차이를 측정하고, 서명 시 보정된 시간을 제공합니다.
+ * Date 헤더는 초 단위이므로 1초 이내의 차이는 보정하지 않습니다.
+ */
+export class ClockSkew {
+  private offset = 0;
+
+  /**
+   * 측정된 서버 시간과 로컬 시간의 차이(ms), 양수일 경우 로컬 시간이 서버보다 느립니다.
+   */
+  get skew(): number {
+    return this.offset;
+  }
+
+  /**
+   * 서버 시간 기준으로 보정된 현재 시간
+   */
+  now(): Date {
+    return new Date(Date.now() + this.offset);
+  }
+
+  /**
+   * 응답의 Date 헤더 값으로 시간 차이를 갱신합니다.
+   * @param dateHeader 응답의 Date 헤더 값
+   * @returns 시간 차이가 갱신되었는지 여부
+   */
+  update(dateHeader: string | null | undefined): boolean {
+    if (!dateHeader) {
+      return false;
+    }
+    const serverTime = Date.parse(dateHeader);
+    if (isNaN(serverTime)) {
+      return false;
+    }
+    const measured = serverTime + 500 - Date.now();
+    if (Math.abs(measured - this.offset) <= 1000) {
+      return false;
+    }
+    this.offset = Math.abs(measured) <= 1000 ? 0 : measured;
+    return true;
+  }
+}
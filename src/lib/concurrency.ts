@@ -0,0 +1,24 @@
+/**
+ * 여러 항목을 지정된 동시 실행 수만큼씩 나누어 비동기로 처리하는 함수
+ * 결과는 입력 항목의 순서와 동일한 순서로 반환됩니다.
+ * @param items 처리할 항목 목록
+ * @param concurrency 최대 동시 실행 수
+ * @param mapper 각 항목을 처리할 비동기 함수
+ */
+export default async function mapWithConcurrency<T, R>(
+  items: ReadonlyArray<T>,
+  concurrency: number,
+  mapper: (item: T, index: number) => Promise<R>,
+): Promise<Array<R>> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await mapper(items[index], index);
+    }
+  };
+  const workerCount = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({length: workerCount}, worker));
+  return results;
+}
@@ -0,0 +1,140 @@
+import {MessageParameter} from '../models/message';
+import {CountForCharge, MessageTypeRecord} from '../types/commonTypes';
+import {detectMessageType} from './messageTypeDetector';
+import {normalizeCountryCode} from './phoneNumber';
+
+/**
+ * @name MessagePriceTable
+ * @description 메시지 유형 별 건당 단가
+ * 모든 국가에 같은 단가를 적용할 경우 숫자를, 국가 별로 단가가 다를 경우 국가번호(예) "82", "1" 등)를 키로 하는 오브젝트를 입력합니다.
+ */
+export type MessagePriceTable = Partial<
+  Record<keyof MessageTypeRecord, number | Record<string, number>>
+>;
+
+/**
+ * @description 단가가 설정되지 않아 비용을 계산하지 못한 메시지 정보
+ * @property type 메시지 유형
+ * @property country 국가번호
+ * @property count 수신번호 수
+ */
+export type MissingPrice = {
+  type: keyof MessageTypeRecord;
+  country: string;
+  count: number;
+};
+
+/**
+ * @name CostEstimate
+ * @description 발송 전 예상 비용 계산 결과
+ */
+export type CostEstimate = {
+  /**
+   * 메시지 유형, 국가 별 수신번호 수
+   */
+  countForCharge: Partial<CountForCharge>;
+
+  /**
+   * 메시지 유형, 국가 별 예상 비용
+   */
+  costForCharge: Partial<CountForCharge>;
+
+  /**
+   * 전체 수신번호 수
+   */
+  totalCount: number;
+
+  /**
+   * 전체 예상 비용, missingPrices에 포함된 메시지의 비용은 제외됩니다.
+   */
+  totalCost: number;
+
+  /**
+   * 단가가 설정되지 않아 비용을 계산하지 못한 메시지 목록
+   */
+  missingPrices: Array<MissingPrice>;
+};
+
+const koreaCountryCode = '82';
+
+function getPrice(
+  priceTable: MessagePriceTable,
+  type: keyof MessageTypeRecord,
+  country: string,
+): number | undefined {
+  const price = priceTable[type];
+  if (typeof price === 'number') {
+    return price;
+  }
+  return price?.[country];
+}
+
+/**
+ * 메시지 목록의 유형을 판별하여 발송 시 예상 비용을 계산하는 함수
+ * 메시지 유형은 detectMessageType 함수로 판별하며, 국가번호가 없는 메시지는 국내(82) 발송으로 계산합니다.
+ * @param messages 메시지 목록
+ * @param priceTable 메시지 유형 별 건당 단가
+ */
+export function estimateMessageCost(
+  messages: Array<MessageParameter>,
+  priceTable: MessagePriceTable,
+): CostEstimate {
+  const estimate: CostEstimate = {
+    countForCharge: {},
+    costForCharge: {},
+    totalCount: 0,
+    totalCost: 0,
+    missingPrices: [],
+  };
+  messages.forEach(message => {
+    const type = detectMessageType(
+      message,
+    ).type.toLowerCase() as keyof MessageTypeRecord;
+    const country =
+      message.country !== undefined
+        ? normalizeCountryCode(message.country)
+        : koreaCountryCode;
+    const count = Array.isArray(message.to) ? message.to.length : 1;
+    const counts = (estimate.countForCharge[type] ??= {});
+    counts[country] = (counts[country] ?? 0) + count;
+    estimate.totalCount += count;
+
+    const price = getPrice(priceTable, type, country);
+    if (price === undefined) {
+      const missingPrice = estimate.missingPrices.find(
+        value => value.type === type && value.country === country,
+      );
+      if (missingPrice) {
+        missingPrice.count += count;
+      } else {
+        estimate.missingPrices.push({type, country, count});
+      }
+      return;
+    }
+    const costs = (estimate.costForCharge[type] ??= {});
+    costs[country] = (costs[country] ?? 0) + price * count;
+    estimate.totalCost += price * count;
+  });
+  return estimate;
+}
+
+/**
+ * @name CostEstimateWithBalance
+ * @description 잔액 조회 결과가 포함된 발송 전 예상 비용 계산 결과
+ */
+export type CostEstimateWithBalance = CostEstimate & {
+  /**
+   * 현재 잔액
+   */
+  balance: number;
+
+  /**
+   * 현재 포인트
+   */
+  point: number;
+
+  /**
+   * 예상 비용이 잔액과 포인트의 합 이하인지에 대한 여부
+   */
+  sufficient: boolean;
+};
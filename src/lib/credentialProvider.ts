@@ -0,0 +1,107 @@
+import {promises as fs} from 'fs';
+import {AuthenticationParameter} from './authenticator';
+import {ApiKeyError} from '../errors/defaultError';
+
+/**
+ * @name CredentialProvider
+ * @description API 요청 시마다 호출되어 인증 정보(API Key/Secret 또는 Access Token)를 반환하는 함수
+ * 요청 시마다 인증 정보를 다시 가져오므로 프로세스를 재시작하지 않고도 API Key를 교체할 수 있습니다.
+ */
+export type CredentialProvider = () =>
+  | AuthenticationParameter
+  | Promise<AuthenticationParameter>;
+
+/**
+ * @description 환경변수 인증 정보 제공 함수에서 사용할 환경변수 이름
+ */
+export type EnvironmentCredentialsOptions = {
+  apiKeyVariable?: string;
+  apiSecretVariable?: string;
+  accessTokenVariable?: string;
+};
+
+/**
+ * 고정된 API Key, API Secret Key를 반환하는 인증 정보 제공 함수를 생성합니다.
+ * @param apiKey SOLAPI API Key
+ * @param apiSecret SOLAPI API Secret Key
+ */
+export function staticCredentials(
+  apiKey: string,
+  apiSecret: string,
+): CredentialProvider {
+  return () => ({apiKey, apiSecret});
+}
+
+/**
+ * 요청 시마다 환경변수를 읽어 인증 정보를 반환하는 함수를 생성합니다.
+ * 기본적으로 SOLAPI_API_KEY, SOLAPI_API_SECRET, SOLAPI_ACCESS_TOKEN 환경변수를 사용합니다.
+ * @param options 사용할 환경변수 이름
+ */
+export function environmentCredentials(
+  options?: EnvironmentCredentialsOptions,
+): CredentialProvider {
+  const {
+    apiKeyVariable = 'SOLAPI_API_KEY',
+    apiSecretVariable = 'SOLAPI_API_SECRET',
+    accessTokenVariable = 'SOLAPI_ACCESS_TOKEN',
+  } = options ?? {};
+  return () => ({
+    apiKey: process.env[apiKeyVariable],
+    apiSecret: process.env[apiSecretVariable],
+    accessToken: process.env[accessTokenVariable],
+  });
+}
+
+/**
+ * JSON 파일에서 인증 정보를 읽어 반환하는 함수를 생성합니다.
+ * 파일의 수정일자가 바뀐 경우에만 파일을 다시 읽습니다.
+ * 파일은 {"apiKey": "...", "apiSecret": "..."} 또는 {"accessToken": "..."} 형식이어야 합니다.
+ * @param filePath 인증 정보가 담긴 JSON 파일 경로
+ * @throws ApiKeyError 파일 내용이 올바른 JSON 형식이 아닐 경우 발생합니다.
+ */
+export function fileCredentials(filePath: string): CredentialProvider {
+  let lastModified: number | undefined;
+  let credentials: AuthenticationParameter = {};
+  return async () => {
+    const {mtimeMs} = await fs.stat(filePath);
+    if (mtimeMs !== lastModified) {
+      const content = await fs.readFile(filePath, 'utf8');
+      try {
+        const parsed: AuthenticationParameter = JSON.parse(content);
+        credentials = {
+          apiKey: parsed.apiKey,
+          apiSecret: parsed.apiSecret,
+          accessToken: parsed.accessToken,
+        };
+      } catch (exception) {
+        throw new ApiKeyError(`Invalid Credentials File Error: ${filePath}`);
+      }
+      lastModified = mtimeMs;
+    }
+    return credentials;
+  };
+}
+
+/**
+ * 비밀 저장소 조회 등 비용이 큰 인증 정보 제공 함수의 결과를 지정된 시간동안 재사용하는 함수를 생성합니다.
+ * 동시에 여러 요청이 들어와도 인증 정보 제공 함수는 한 번만 호출됩니다.
+ * @param provider 인증 정보 제공 함수
+ * @param ttl 인증 정보를 재사용할 시간(ms)
+ */
+export function cachedCredentials(
+  provider: CredentialProvider,
+  ttl: number,
+): CredentialProvider {
+  let cached: Promise<AuthenticationParameter> | undefined;
+  let expiresAt = 0;
+  return () => {
+    if (!cached || Date.now() >= expiresAt) {
+      expiresAt = Date.now() + ttl;
+      cached = Promise.resolve(provider()).catch(error => {
+        cached = undefined;
+        throw error;
+      });
+    }
+    return cached;
+  };
+}
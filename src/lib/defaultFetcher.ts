@@ -1,47 +1,380 @@
-import getAuthInfo, {AuthenticationParameter} from './authenticator';
+import getAuthInfo from './authenticator';
 import fetch from 'cross-fetch';
-import {DefaultError, ErrorResponse} from '../errors/defaultError';
+import {
+  DefaultError,
+  DefaultErrorDetail,
+  ErrorResponse,
+  InsufficientBalanceError,
+  InvalidCredentialsError,
+  InvalidTemplateError,
+  NotFoundError,
+  RateLimitedError,
+  RequestAbortedError,
+  RequestTimeoutError,
+  ServerError,
+  UnregisteredSenderNumberError,
+} from '../errors/defaultError';
+import {
+  defaultRetryPolicy,
+  getRetryDelay,
+  parseRetryAfter,
+  RetryPolicy,
+  shouldRetryError,
+  shouldRetryStatus,
+} from './retryPolicy';
+import delay from './delay';
+import {RequestOptions} from '../requests/requestOptions';
+import {Middleware, MiddlewareRequestContext} from './middleware';
+import {RateLimiter} from './rateLimiter';
+import {CredentialProvider} from './credentialProvider';
+import {ClockSkew} from './clockSkew';
 
-type DefaultRequest = {
+type DefaultRequest = RequestOptions & {
   url: string;
   method: string;
 };
 
 /**
- * 공용 API 클라이언트 함수
- * @throws DefaultError 발송 실패 등 API 상의 다양한 오류를 표시합니다.
- * @param authParameter API 인증을 위한 파라미터
+ * @description API 요청 시 사용할 fetch 구현체 타입
+ */
+export type FetchFunction = typeof fetch;
+
+/**
+ * @description 공용 API 클라이언트 함수를 호출할 때 필요한 클라이언트 단위 설정
+ * @property credentials 요청 시마다 API 인증 정보를 반환하는 인증 정보 제공 함수
+ * @property fetch API 요청 시 사용할 fetch 구현체, 미기입 시 cross-fetch를 사용합니다.
+ * @property retryPolicy 일시적인 오류 발생 시 적용할 재시도 정책
+ * @property timeout 기본 요청 제한 시간(ms), 미기입 시 제한 시간 없이 요청합니다.
+ * @property middlewares 모든 API 요청 전후에 실행할 미들웨어 목록
+ * @property rateLimiter 동시 요청 수, 초당 요청 수를 제한하는 요청 제한 장치
+ * @property clockSkew 서버와의 시간 차이를 측정하여 서명 시간을 보정하는 장치
+ */
+export type DefaultFetcherConfig = {
+  credentials: CredentialProvider;
+  fetch?: FetchFunction;
+  retryPolicy?: RetryPolicy;
+  timeout?: number;
+  middlewares?: Array<Middleware>;
+  rateLimiter?: RateLimiter;
+  clockSkew?: ClockSkew;
+};
+
+type DefaultErrorConstructor = new (
+  errorCode: string,
+  errorMessage: string,
+  detail?: DefaultErrorDetail,
+) => DefaultError;
+
+/**
+ * 서명 시간이 서버 시간과 많이 달라 요청이 거절되었을 때의 errorCode 목록
+ */
+const clockSkewErrorCodes = [
+  'ExpiredSignature',
+  'SignatureExpired',
+  'RequestTimeTooSkewed',
+];
+
+/**
+ * SOLAPI errorCode 값 별로 발생시킬 에러 클래스 목록
+ */
+const errorCodeClasses: Record<string, DefaultErrorConstructor> = {
+  InvalidApiKey: InvalidCredentialsError,
+  InvalidAPIKey: InvalidCredentialsError,
+  InvalidAuthorizationHeader: InvalidCredentialsError,
+  SignatureDoesNotMatch: InvalidCredentialsError,
+  ExpiredSignature: InvalidCredentialsError,
+  SignatureExpired: InvalidCredentialsError,
+  RequestTimeTooSkewed: InvalidCredentialsError,
+  DuplicatedSignature: InvalidCredentialsError,
+  Unauthorized: InvalidCredentialsError,
+  NotEnoughBalance: InsufficientBalanceError,
+  NotEnoughPoint: InsufficientBalanceError,
+  InsufficientBalance: InsufficientBalanceError,
+  NotRegisteredSenderNumber: UnregisteredSenderNumberError,
+  SenderNumberNotRegistered: UnregisteredSenderNumberError,
+  UnregisteredSenderNumber: UnregisteredSenderNumberError,
+  InvalidTemplate: InvalidTemplateError,
+  InvalidKakaoTemplate: InvalidTemplateError,
+  TemplateNotApproved: InvalidTemplateError,
+  TooManyRequests: RateLimitedError,
+  RateLimitExceeded: RateLimitedError,
+  NotFound: NotFoundError,
+  ResourceNotFound: NotFoundError,
+  InternalError: ServerError,
+};
+
+/**
+ * errorCode 값에 해당하는 에러 클래스가 없을 경우 HTTP 응답 상태 코드를 기준으로 에러 클래스를 찾는 함수
+ * @param status HTTP 응답 상태 코드
+ */
+function getErrorClassByStatus(status: number): DefaultErrorConstructor {
+  if (status === 401) {
+    return InvalidCredentialsError;
+  } else if (status === 404) {
+    return NotFoundError;
+  } else if (status === 429) {
+    return RateLimitedError;
+  } else if (status >= 500) {
+    return ServerError;
+  }
+  return DefaultError;
+}
+
+function isErrorResponse(value: unknown): value is ErrorResponse {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as ErrorResponse).errorCode === 'string'
+  );
+}
+
+/**
+ * 실패한 API 응답으로 에러 인스턴스를 만드는 함수
+ * 응답 데이터가 JSON이 아닐 경우에도 응답 문자열을 그대로 에러 메시지로 사용합니다.
+ * @param res 실패한 API 응답
  * @param request API URI, HTTP method 정의
+ */
+async function createApiError(
+  res: Response,
+  request: DefaultRequest,
+): Promise<DefaultError> {
+  const responseText = await res.text();
+  let response: unknown = responseText;
+  try {
+    response = JSON.parse(responseText);
+  } catch (exception) {
+    // JSON 형식이 아닌 응답은 문자열 그대로 사용합니다.
+  }
+  const detail: DefaultErrorDetail = {
+    status: res.status,
+    url: request.url,
+    method: request.method,
+    response,
+  };
+  if (isErrorResponse(response)) {
+    const ErrorClass =
+      errorCodeClasses[response.errorCode] ?? getErrorClassByStatus(res.status);
+    return new ErrorClass(
+      response.errorCode,
+      response.errorMessage ?? responseText,
+      detail,
+    );
+  }
+  const ErrorClass = getErrorClassByStatus(res.status);
+  return new ErrorClass('UnknownException', responseText, detail);
+}
+
+/**
+ * API 응답을 JSON으로 변환하는 함수
+ * 성공 응답의 데이터가 JSON 형식이 아닐 경우 응답 문자열을 담은 DefaultError 에러가 발생합니다.
+ * @param res API 응답
+ * @param request API URI, HTTP method 정의
+ */
+async function parseResponse<R>(
+  res: Response,
+  request: DefaultRequest,
+): Promise<R> {
+  if (res.status >= 400) {
+    throw await createApiError(res, request);
+  }
+  const responseText = await res.text();
+  try {
+    return JSON.parse(responseText);
+  } catch (exception) {
+    throw new DefaultError(
+      'InvalidResponse',
+      'API 응답 데이터가 올바른 JSON 형식이 아닙니다.',
+      {
+        status: res.status,
+        url: request.url,
+        method: request.method,
+        response: responseText,
+      },
+    );
+  }
+}
+
+async function fetchWithRetry<R>(
+  config: DefaultFetcherConfig,
+  context: MiddlewareRequestContext,
+  signal?: AbortSignal,
+): Promise<R> {
+  const {request} = context;
+  const fetcher = config.fetch ?? fetch;
+  const clientRetryPolicy = config.retryPolicy ?? defaultRetryPolicy;
+  const retryPolicy: RetryPolicy =
+    request.retry === false
+      ? {...clientRetryPolicy, maxAttempts: 1}
+      : {...clientRetryPolicy, ...request.retry};
+  for (let attempt = 1; ; attempt++) {
+    const release = await config.rateLimiter?.acquire(request.url, signal);
+    let res: Response;
+    try {
+      // 요청 제한 대기열에서 기다린 시간만큼 서명 시간이 밀리지 않도록 요청 직전에 서명합니다.
+      const authorization = getAuthInfo(
+        await config.credentials(),
+        undefined,
+        config.clockSkew?.now(),
+      );
+      res = await fetcher(request.url, {
+        headers: {
+          'Content-Type': 'application/json',
+          ...context.headers,
+          Authorization: authorization,
+        },
+        body: context.body,
+        method: request.method,
+        signal,
+      });
+    } catch (error) {
+      release?.();
+      if (
+        !signal?.aborted &&
+        shouldRetryError(retryPolicy, request.method, error, attempt)
+      ) {
+        await delay(getRetryDelay(retryPolicy, attempt), signal);
+        continue;
+      }
+      throw error;
+    }
+    config.clockSkew?.update(res.headers.get('Date'));
+    const retryAfter = res.headers.get('Retry-After');
+    if (res.status === 429) {
+      config.rateLimiter?.throttle(
+        request.url,
+        retryAfter ? parseRetryAfter(retryAfter) : undefined,
+      );
+    }
+    if (shouldRetryStatus(retryPolicy, request.method, res.status, attempt)) {
+      await res.text().catch(() => undefined);
+      release?.();
+      await delay(getRetryDelay(retryPolicy, attempt, retryAfter), signal);
+      continue;
+    }
+    try {
+      return await parseResponse<R>(res, request);
+    } finally {
+      release?.();
+    }
+  }
+}
+
+/**
+ * 요청 제한 시간 또는 AbortSignal이 있을 경우에만 요청 취소에 사용할 AbortController를 생성하는 함수
+ * AbortController를 지원하지 않는 환경(Node.js 14 등)에서는 생성하지 않습니다.
+ * @param timeout 요청 제한 시간(ms)
+ * @param signal 요청 단위 AbortSignal
+ */
+function createAbortController(
+  timeout?: number,
+  signal?: AbortSignal,
+): AbortController | undefined {
+  if (typeof AbortController === 'undefined') {
+    return undefined;
+  }
+  if ((timeout === undefined || timeout <= 0) && !signal) {
+    return undefined;
+  }
+  return new AbortController();
+}
+
+/**
+ * 공용 API 클라이언트 함수
+ * 재시도 정책에 따라 네트워크 오류, 5xx 등 일시적인 오류가 발생하면 요청을 재시도합니다.
+ * 등록된 미들웨어가 있을 경우 요청 전, 응답 후, 오류 발생 시 순서대로 실행합니다.
+ * AbortController를 지원하지 않는 환경에서는 제한 시간이 지나면 RequestTimeoutError 에러를 발생시키지만, 진행 중인 요청 자체를 취소하지는 않습니다.
+ * @throws DefaultError 발송 실패 등 API 상의 다양한 오류를 표시합니다. errorCode, HTTP 상태 코드에 따라 InvalidCredentialsError 등 하위 에러 클래스로 발생합니다.
+ * @throws RequestTimeoutError 요청 제한 시간이 지났을 경우 발생합니다.
+ * @throws RequestAbortedError AbortSignal을 통해 요청이 취소되었을 경우 발생합니다.
+ * @param config API 인증 정보, fetch 구현체 등 클라이언트 단위 설정
+ * @param request API URI, HTTP method, 요청 단위 옵션 정의
  * @param data API에 요청할 request body 데이터
  */
 export default async function defaultFetcher<T, R>(
-  authParameter: AuthenticationParameter,
+  config: DefaultFetcherConfig,
   request: DefaultRequest,
   data?: T,
 ): Promise<R> {
-  const authorizationHeaderData = getAuthInfo(authParameter);
-  return await fetch(request.url, {
-    headers: {
-      Authorization: authorizationHeaderData,
-      'Content-Type': 'application/json',
-    },
+  const middlewares = config.middlewares ?? [];
+  const context: MiddlewareRequestContext = {
+    request,
+    headers: {},
     body: JSON.stringify(data),
-    method: request.method,
-  }).then<R>(async res => {
-    if (res.status >= 400 && res.status < 500) {
-      const errorResponse: ErrorResponse = await res.json();
-      throw new DefaultError(
-        errorResponse.errorCode,
-        errorResponse.errorMessage,
-      );
-    } else if (res.status >= 500) {
-      const responseText = await res.text();
-      throw new DefaultError('UnknownException', responseText);
+  };
+  const startedAt = Date.now();
+  const timeout = request.timeout ?? config.timeout;
+  const controller = createAbortController(timeout, request.signal);
+  const signal = controller?.signal ?? request.signal;
+  const abort = () => controller?.abort();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    if (request.signal?.aborted) {
+      throw new RequestAbortedError('API 요청이 취소되었습니다.');
     }
-    try {
-      return res.json();
-    } catch (exception) {
-      throw new Error(await res.text());
+    if (controller) {
+      request.signal?.addEventListener('abort', abort, {once: true});
+    }
+    for (const middleware of middlewares) {
+      await middleware.beforeRequest?.(context);
+    }
+    // 비동기 미들웨어 실행 중 요청이 취소되었을 경우 요청을 보내지 않습니다.
+    if (signal?.aborted) {
+      throw new RequestAbortedError('API 요청이 취소되었습니다.');
+    }
+    const timeoutReached = new Promise<never>((resolve, reject) => {
+      if (timeout !== undefined && timeout > 0) {
+        timer = setTimeout(() => {
+          timedOut = true;
+          controller?.abort();
+          reject(new RequestTimeoutError(timeout));
+        }, timeout);
+      }
+    });
+    const send = () => fetchWithRetry<R>(config, context, signal);
+    const sent = send()
+      .catch(error => {
+        // 서버와의 시간 차이로 서명이 거절된 경우, 응답의 Date 헤더로 보정된 시간으로 한 번 더 서명하여 요청합니다.
+        if (
+          config.clockSkew &&
+          error instanceof DefaultError &&
+          clockSkewErrorCodes.includes(error.errorCode)
+        ) {
+          return send();
+        }
+        throw error;
+      })
+      .catch(error => {
+        if (timedOut && timeout !== undefined) {
+          throw new RequestTimeoutError(timeout);
+        }
+        if (signal?.aborted) {
+          throw new RequestAbortedError('API 요청이 취소되었습니다.');
+        }
+        throw error;
+      });
+    const response = await Promise.race([sent, timeoutReached]);
+    for (const middleware of middlewares) {
+      await middleware.afterResponse?.({
+        ...context,
+        response,
+        duration: Date.now() - startedAt,
+      });
+    }
+    return response;
+  } catch (error) {
+    for (const middleware of middlewares) {
+      await middleware.onError?.({
+        ...context,
+        error,
+        duration: Date.now() - startedAt,
+      });
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    if (controller) {
+      request.signal?.removeEventListener('abort', abort);
     }
-  });
+  }
 }
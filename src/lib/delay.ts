@@ -0,0 +1,25 @@
+/**
+ * 지정된 시간(ms)만큼 대기하는 함수
+ * @param milliseconds 대기할 시간(ms)
+ * @param signal 대기를 취소하기 위한 AbortSignal, 취소될 경우 Promise가 reject 됩니다.
+ */
+export default function delay(
+  milliseconds: number,
+  signal?: AbortSignal,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Aborted'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, milliseconds);
+    signal?.addEventListener('abort', onAbort, {once: true});
+  });
+}
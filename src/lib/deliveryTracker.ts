@@ -0,0 +1,210 @@
+import {Message, MessageType} from '../models/message';
+import {GroupMessageResponse} from '../responses/messageResponses';
+import {RequestOptions} from '../requests/requestOptions';
+import {GetGroupMessagesRequest} from '../requests/messageRequest';
+import {Count, GroupId, GroupStatus} from '../types/commonTypes';
+import {RequestAbortedError} from '../errors/defaultError';
+import {PaginationOptions} from './paginator';
+import delay from './delay';
+import {getStatusCodeInfo} from './statusCodes';
+
+/**
+ * @description 메시지 최종 발송 상태
+ * DELIVERED: 수신 완료(상태 코드 4000), FAILED: 발송 실패, PENDING: 아직 최종 상태에 도달하지 않음
+ */
+export type DeliveryStatus = 'DELIVERED' | 'FAILED' | 'PENDING';
+
+/**
+ * @description 메시지 별 발송 결과
+ * @property replaced 알림톡 등의 발송 실패로 문자 대체 발송이 진행되었는지에 대한 여부
+ */
+export type MessageDeliveryOutcome = {
+  messageId?: string;
+  to: string | Array<string>;
+  type?: MessageType;
+  statusCode?: string;
+  status: DeliveryStatus;
+  replaced: boolean;
+};
+
+/**
+ * @description 발송 상태 조회 중 그룹의 발송 건수가 변경될 때마다 전달되는 정보
+ */
+export type DeliveryProgress = {
+  groupId: GroupId;
+  status: string;
+  count: Count;
+};
+
+/**
+ * @description 발송 결과 조회 결과
+ * @property completed 모든 메시지가 최종 상태에 도달했는지에 대한 여부
+ * @property timedOut 최종 상태에 도달하기 전에 제한 시간이 지났는지에 대한 여부
+ */
+export type DeliveryReport = {
+  groupId: GroupId;
+  count: Count;
+  completed: boolean;
+  timedOut: boolean;
+  outcomes: Array<MessageDeliveryOutcome>;
+};
+
+/**
+ * @name DeliveryTrackingOptions
+ * @description 발송 결과 조회 설정
+ */
+export type DeliveryTrackingOptions = {
+  /**
+   * 최종 상태를 기다릴 최대 시간(ms), 값 미기입시 120000ms로 설정됩니다.
+   */
+  timeout?: number;
+
+  /**
+   * 첫 조회 이후 다음 조회까지의 대기 시간(ms), 조회할 때마다 backoffMultiplier 배씩 늘어납니다. 값 미기입시 1000ms로 설정됩니다.
+   * 첫 조회는 대기 없이 바로 요청합니다.
+   */
+  initialInterval?: number;
+
+  /**
+   * 조회 간격의 최대값(ms), 값 미기입시 10000ms로 설정됩니다.
+   */
+  maxInterval?: number;
+
+  /**
+   * 조회 간격 증가 배수, 값 미기입시 2로 설정됩니다.
+   */
+  backoffMultiplier?: number;
+
+  /**
+   * 그룹의 발송 건수(Count)가 변경될 때마다 호출되는 함수
+   */
+  onProgress?: (progress: DeliveryProgress) => void;
+};
+
+/**
+ * @description 발송 결과 조회에 필요한 API 호출 함수
+ */
+export type DeliveryTrackerClient = {
+  getGroup(
+    groupId: GroupId,
+    options?: RequestOptions,
+  ): Promise<GroupMessageResponse>;
+  iterateGroupMessages(
+    groupId: GroupId,
+    data?: GetGroupMessagesRequest,
+    paginationOptions?: PaginationOptions,
+    options?: RequestOptions,
+  ): AsyncIterable<Message>;
+};
+
+const finalGroupStatuses: Array<GroupStatus> = [
+  'COMPLETE',
+  'FAILED',
+  'DELETED',
+];
+
+/**
+ * 메시지 상태 코드로 최종 발송 상태를 판단하는 함수
+ * @param statusCode 메시지 상태 코드
+ */
+export function getDeliveryStatus(statusCode?: string): DeliveryStatus {
+  const {category, final} = getStatusCodeInfo(statusCode);
+  if (!final) {
+    return 'PENDING';
+  }
+  return category === 'SUCCESS' ? 'DELIVERED' : 'FAILED';
+}
+
+function toDeliveryOutcome(message: Message): MessageDeliveryOutcome {
+  return {
+    messageId: message.messageId,
+    to: message.to,
+    type: message.type,
+    statusCode: message.statusCode,
+    status: getDeliveryStatus(message.statusCode),
+    replaced: message.replacement === true,
+  };
+}
+
+function isGroupSettled(group: GroupMessageResponse): boolean {
+  const {count} = group;
+  return (
+    finalGroupStatuses.includes(group.status) ||
+    (count.sentPending === 0 && count.sentTotal >= count.registeredSuccess)
+  );
+}
+
+async function getOutcomes(
+  client: DeliveryTrackerClient,
+  groupId: GroupId,
+  options?: RequestOptions,
+): Promise<Array<MessageDeliveryOutcome>> {
+  const outcomes: Array<MessageDeliveryOutcome> = [];
+  for await (const message of client.iterateGroupMessages(
+    groupId,
+    undefined,
+    undefined,
+    options,
+  )) {
+    outcomes.push(toDeliveryOutcome(message));
+  }
+  return outcomes;
+}
+
+/**
+ * 그룹 정보와 그룹 내 메시지 목록을 주기적으로 조회하여 모든 메시지가 최종 상태에 도달할 때까지 기다리는 함수
+ * 첫 조회는 바로 요청하고, 이후 조회 간격은 initialInterval부터 maxInterval까지 점점 늘어나며, 제한 시간이 지나면 그 시점의 결과를 반환합니다.
+ * @param client 그룹 정보, 그룹 내 메시지 목록 조회 함수
+ * @param groupId 그룹 ID
+ * @param trackingOptions 제한 시간, 조회 간격 등 발송 결과 조회 설정
+ * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
+ * @throws RequestAbortedError AbortSignal을 통해 조회가 취소되었을 경우 발생합니다.
+ */
+export default async function trackDelivery(
+  client: DeliveryTrackerClient,
+  groupId: GroupId,
+  trackingOptions?: DeliveryTrackingOptions,
+  options?: RequestOptions,
+): Promise<DeliveryReport> {
+  const {
+    timeout = 120000,
+    initialInterval = 1000,
+    maxInterval = 10000,
+    backoffMultiplier = 2,
+    onProgress,
+  } = trackingOptions ?? {};
+  const deadline = Date.now() + timeout;
+  let interval = initialInterval;
+  let lastCount: string | undefined;
+  while (true) {
+    const group = await client.getGroup(groupId, options);
+    const serializedCount = JSON.stringify(group.count);
+    if (serializedCount !== lastCount) {
+      lastCount = serializedCount;
+      onProgress?.({groupId, status: group.status, count: group.count});
+    }
+    const timedOut = Date.now() >= deadline;
+    if (isGroupSettled(group) || timedOut) {
+      const outcomes = await getOutcomes(client, groupId, options);
+      const completed = outcomes.every(outcome => outcome.status !== 'PENDING');
+      if (completed || timedOut) {
+        return {
+          groupId,
+          count: group.count,
+          completed,
+          timedOut: !completed,
+          outcomes,
+        };
+      }
+    }
+    try {
+      await delay(
+        Math.max(0, Math.min(interval, deadline - Date.now())),
+        options?.signal,
+      );
+    } catch (exception) {
+      throw new RequestAbortedError('발송 결과 조회가 취소되었습니다.');
+    }
+    interval = Math.min(interval * backoffMultiplier, maxInterval);
+  }
+}
@@ -0,0 +1,271 @@
+import {Message, MessageParameter} from '../models/message';
+import {
+  AddMessageResponse,
+  AddMessageResult,
+} from '../responses/messageResponses';
+import {
+  GroupUploadChunkError,
+  GroupUploadReport,
+  GroupUploadResult,
+} from '../responses/groupUploadResponse';
+import {RequestOptions} from '../requests/requestOptions';
+import {GroupId} from '../types/commonTypes';
+import {DefaultError} from '../errors/defaultError';
+import mapWithConcurrency from './concurrency';
+import delay from './delay';
+import {
+  defaultRetryPolicy,
+  RetryPolicy,
+  shouldRetryError,
+  shouldRetryStatus,
+} from './retryPolicy';
+import {getStatusCodeInfo} from './statusCodes';
+
+/**
+ * @name GroupUploadOptions
+ * @description 그룹 메시지 분할 추가 설정
+ */
+export type GroupUploadOptions = {
+  /**
+   * 한 번의 요청으로 추가할 최대 수신번호 수, 값 미기입시 10,000건으로 설정됩니다.
+   */
+  chunkSize?: number;
+
+  /**
+   * 최대 동시 요청 수, 값 미기입시 2로 설정됩니다.
+   */
+  concurrency?: number;
+
+  /**
+   * 요청이 실패한 묶음(chunk)의 최대 재시도 횟수, 값 미기입시 2로 설정됩니다.
+   * 중복 추가를 막기 위해 서버에서 처리되지 않은 것이 확실한 경우(429 응답, 연결 실패)에만 재시도합니다.
+   */
+  retries?: number;
+
+  /**
+   * 재시도 대기 시간의 기준값(ms), 재시도 할 때마다 2배씩 늘어납니다. 값 미기입시 1000ms로 설정됩니다.
+   */
+  retryDelay?: number;
+};
+
+/**
+ * @description 그룹 메시지 분할 추가에 필요한 API 호출 함수
+ */
+export type GroupUploaderClient = {
+  addMessagesToGroup(
+    groupId: GroupId,
+    messages: Required<Array<Message>>,
+    options?: RequestOptions,
+  ): Promise<AddMessageResponse>;
+};
+
+type UploadItem = {
+  index: number;
+  key: string;
+  to: string;
+  message: MessageParameter;
+};
+
+/**
+ * 그룹 메시지 추가 결과를 요청한 메시지와 연결하기 위해 각 메시지의 customFields에 추가하는 키
+ */
+const uploadKeyField = 'solapiUploadKey';
+
+/**
+ * 수신번호가 여러 개인 메시지를 수신번호 별 메시지로 나누는 함수
+ * 그룹 메시지 추가 결과는 수신번호 별로 반환되므로, 결과와 요청 메시지의 순번을 맞추기 위해 사용합니다.
+ * @param messages 메시지 목록
+ */
+function expandRecipients(
+  messages: Array<MessageParameter>,
+): Array<UploadItem> {
+  const items: Array<UploadItem> = [];
+  messages.forEach((message, index) => {
+    const recipients = Array.isArray(message.to) ? message.to : [message.to];
+    recipients.forEach(to => {
+      const key = String(items.length);
+      items.push({
+        index,
+        key,
+        to,
+        message: {
+          ...message,
+          to,
+          customFields: {...message.customFields, [uploadKeyField]: key},
+        },
+      });
+    });
+  });
+  return items;
+}
+
+/**
+ * 그룹 메시지 추가 응답의 결과 목록을 요청한 메시지와 연결하는 함수
+ * 결과에 customFields가 포함되어 있을 경우 uploadKeyField 값으로 연결하며,
+ * 포함되어 있지 않을 경우 같은 수신번호의 결과를 요청한 순서대로 연결합니다.
+ * @param chunk 요청한 묶음의 메시지 목록
+ * @param payload 실제로 요청한(수신번호가 변환된) 메시지 목록
+ * @param resultList 그룹 메시지 추가 응답의 결과 목록
+ */
+function matchResults(
+  chunk: Array<UploadItem>,
+  payload: Array<Message>,
+  resultList: Array<AddMessageResult>,
+): Array<AddMessageResult | undefined> {
+  const resultsByKey = new Map<string, AddMessageResult>();
+  const resultsByRecipient = new Map<string, Array<AddMessageResult>>();
+  resultList.forEach(result => {
+    const key = result.customFields?.[uploadKeyField];
+    if (key !== undefined) {
+      resultsByKey.set(key, result);
+      return;
+    }
+    const results = resultsByRecipient.get(result.to) ?? [];
+    results.push(result);
+    resultsByRecipient.set(result.to, results);
+  });
+  return chunk.map(
+    (item, itemIndex) =>
+      resultsByKey.get(item.key) ??
+      resultsByRecipient.get(String(payload[itemIndex].to))?.shift(),
+  );
+}
+
+/**
+ * 그룹 메시지 추가 요청이 실패한 묶음을 재시도할 지 판단하는 함수
+ * 그룹 메시지 추가(PUT)는 멱등하지 않으므로 서버에서 처리되지 않은 것이 확실한 경우(429 응답, 연결 실패)에만 재시도합니다.
+ * @param policy 재시도 정책
+ * @param error 그룹 메시지 추가 시 발생한 오류
+ * @param attempts 현재까지 요청한 횟수
+ */
+function shouldRetryChunk(
+  policy: RetryPolicy,
+  error: unknown,
+  attempts: number,
+): boolean {
+  if (error instanceof DefaultError) {
+    return (
+      error.status !== undefined &&
+      shouldRetryStatus(policy, 'PUT', error.status, attempts)
+    );
+  }
+  return shouldRetryError(policy, 'PUT', error, attempts);
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * 메시지 목록을 여러 묶음(chunk)으로 나누어 지정된 동시 요청 수만큼씩 그룹에 추가하는 함수
+ * 요청 자체가 실패한 묶음은 서버에서 처리되지 않은 것이 확실한 경우(429 응답, 연결 실패)에만 retries 횟수만큼 재시도하며,
+ * 재시도하지 않았거나 재시도 후에도 실패한 묶음의 메시지는 실패로 기록됩니다.
+ * 각 메시지의 customFields에 solapiUploadKey 값을 추가하여 요청하며, 응답의 결과는 이 값 또는 수신번호로 요청 메시지의 순번과 연결합니다.
+ * 묶음 단위로 재시도하므로 각 요청에는 SolapiMessageService의 재시도 정책을 적용하지 않습니다.
+ * @param client 그룹 메시지 추가 함수
+ * @param groupId 생성 된 Group ID
+ * @param messages 추가할 메시지 목록
+ * @param uploadOptions 묶음 크기, 동시 요청 수, 재시도 횟수 등 분할 추가 설정
+ * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
+ */
+export default async function uploadMessagesToGroup(
+  client: GroupUploaderClient,
+  groupId: GroupId,
+  messages: Array<MessageParameter>,
+  uploadOptions?: GroupUploadOptions,
+  options?: RequestOptions,
+): Promise<GroupUploadReport> {
+  const {
+    chunkSize = 10000,
+    concurrency = 2,
+    retries = 2,
+    retryDelay = 1000,
+  } = uploadOptions ?? {};
+  const retryPolicy: RetryPolicy = {
+    ...defaultRetryPolicy,
+    maxAttempts: retries + 1,
+    retryNonIdempotent: false,
+  };
+  const items = expandRecipients(messages);
+  const chunks: Array<Array<UploadItem>> = [];
+  for (let index = 0; index < items.length; index += chunkSize) {
+    chunks.push(items.slice(index, index + chunkSize));
+  }
+  const errors: Array<GroupUploadChunkError> = [];
+  const chunkResults = await mapWithConcurrency(
+    chunks,
+    concurrency,
+    async (chunk, chunkIndex): Promise<Array<GroupUploadResult>> => {
+      let attempts = 0;
+      while (true) {
+        attempts++;
+        try {
+          const payload = chunk.map(item => new Message(item.message));
+          // 재시도 횟수가 retries 값을 넘지 않도록 요청 단위 재시도는 하지 않습니다.
+          const response = await client.addMessagesToGroup(groupId, payload, {
+            ...options,
+            retry: false,
+          });
+          const matchedResults = matchResults(
+            chunk,
+            payload,
+            response.resultList,
+          );
+          return chunk.map(({index, to}, itemIndex) => {
+            const result = matchedResults[itemIndex];
+            if (!result) {
+              return {
+                index,
+                to,
+                success: false,
+                statusMessage: '그룹 메시지 추가 결과를 확인할 수 없습니다.',
+              };
+            }
+            // 정상 접수(2000) 등 발송 대기 상태인 메시지만 그룹에 추가된 것으로 판단합니다.
+            return {
+              index,
+              to,
+              success:
+                getStatusCodeInfo(result.statusCode).category === 'PENDING',
+              messageId: result.messageId,
+              statusCode: result.statusCode,
+              statusMessage: result.statusMessage,
+            };
+          });
+        } catch (error) {
+          if (
+            options?.signal?.aborted ||
+            !shouldRetryChunk(retryPolicy, error, attempts)
+          ) {
+            errors.push({
+              chunkIndex,
+              messageCount: chunk.length,
+              attempts,
+              error,
+            });
+            return chunk.map(({index, to}) => ({
+              index,
+              to,
+              success: false,
+              statusMessage: getErrorMessage(error),
+            }));
+          }
+          await delay(
+            retryDelay * Math.pow(2, attempts - 1),
+            options?.signal,
+          ).catch(() => undefined);
+        }
+      }
+    },
+  );
+  const results: Array<GroupUploadResult> = [];
+  chunkResults.forEach(chunkResult => results.push(...chunkResult));
+  const successCount = results.filter(result => result.success).length;
+  return {
+    groupId,
+    successCount,
+    failedCount: results.length - successCount,
+    results,
+    errors: errors.sort((a, b) => a.chunkIndex - b.chunkIndex),
+  };
+}
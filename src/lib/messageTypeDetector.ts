@@ -0,0 +1,179 @@
+import {MessageParameter, MessageType} from '../models/message';
+
+/**
+ * @description 메시지 유형 별 최대 바이트 수(EUC-KR 기준)
+ * @property text 메시지 내용 최대 바이트 수
+ * @property subject 문자 제목 최대 바이트 수, 제목을 사용할 수 없는 유형일 경우 0입니다.
+ */
+export type MessageByteLimit = {
+  text: number;
+  subject: number;
+};
+
+/**
+ * @description 문자(SMS, LMS, MMS) 유형 별 최대 바이트 수
+ * 통신사 기준에 따라 한글 등 2바이트 문자는 2바이트, 영문/숫자 등은 1바이트로 계산합니다.
+ */
+export const messageByteLimits: Record<
+  'SMS' | 'LMS' | 'MMS',
+  MessageByteLimit
+> = {
+  SMS: {text: 90, subject: 0},
+  LMS: {text: 2000, subject: 40},
+  MMS: {text: 2000, subject: 40},
+};
+
+/**
+ * @description 메시지 유형 판별 결과
+ * @property type 판별된 메시지 유형, 이 값을 type에 넣고 autoTypeDetect를 false로 설정하면 유형을 고정할 수 있습니다.
+ * @property textBytes 메시지 내용의 바이트 수(EUC-KR 기준)
+ * @property subjectBytes 문자 제목의 바이트 수(EUC-KR 기준)
+ * @property limit 판별된 유형의 최대 바이트 수, 문자(SMS, LMS, MMS)가 아닌 경우 값이 없습니다.
+ * @property exceeded 메시지 내용 또는 제목이 최대 바이트 수를 넘었는지에 대한 여부
+ * @property unencodableCharacters EUC-KR로 표현할 수 없어 수신 단말기에서 깨질 수 있는 문자 목록(이모지 등)
+ */
+export type MessageTypeDetectionResult = {
+  type: MessageType;
+  textBytes: number;
+  subjectBytes: number;
+  limit?: MessageByteLimit;
+  exceeded: boolean;
+  unencodableCharacters: Array<string>;
+};
+
+let eucKrCharacters: Set<number> | null | undefined;
+
+/**
+ * EUC-KR(KS X 1001)로 표현할 수 있는 2바이트 문자 목록을 만드는 함수
+ * 실행 환경에서 EUC-KR TextDecoder를 지원하지 않을 경우 null을 반환합니다.
+ */
+function getEucKrCharacters(): Set<number> | null {
+  if (eucKrCharacters !== undefined) {
+    return eucKrCharacters;
+  }
+  try {
+    const decoder = new TextDecoder('euc-kr');
+    const characters = new Set<number>();
+    for (let lead = 0xa1; lead <= 0xfe; lead++) {
+      for (let trail = 0xa1; trail <= 0xfe; trail++) {
+        const character = decoder.decode(new Uint8Array([lead, trail]));
+        const codePoint = character.codePointAt(0);
+        if (character.length === 1 && codePoint !== 0xfffd) {
+          characters.add(codePoint as number);
+        }
+      }
+    }
+    eucKrCharacters = characters;
+  } catch (error) {
+    eucKrCharacters = null;
+  }
+  return eucKrCharacters;
+}
+
+/**
+ * 문자열의 EUC-KR 기준 바이트 수와 EUC-KR로 표현할 수 없는 문자 목록을 계산하는 함수
+ * EUC-KR로 표현할 수 없는 문자도 2바이트로 계산합니다.
+ * @param value 계산할 문자열
+ */
+export function getEucKrByteLength(value: string): {
+  bytes: number;
+  unencodableCharacters: Array<string>;
+} {
+  const characters = getEucKrCharacters();
+  const unencodableCharacters: Array<string> = [];
+  let bytes = 0;
+  for (const character of value) {
+    const codePoint = character.codePointAt(0) as number;
+    if (codePoint <= 0x7f) {
+      bytes += 1;
+      continue;
+    }
+    bytes += 2;
+    const encodable = characters
+      ? characters.has(codePoint)
+      : codePoint <= 0xffff;
+    if (!encodable && !unencodableCharacters.includes(character)) {
+      unencodableCharacters.push(character);
+    }
+  }
+  return {bytes, unencodableCharacters};
+}
+
+/**
+ * 발송 전 메시지 유형을 판별하는 함수
+ * type이 지정된 경우 해당 유형을, 카카오 옵션이 있는 경우 알림톡/친구톡 유형을, 네이버 옵션이 있는 경우 스마트알림(NSA) 유형을,
+ * RCS 옵션이 있는 경우 RCS 유형을, 음성/팩스 옵션이 있는 경우 음성 메시지(VOICE)/팩스(FAX) 유형을 사용하며,
+ * 그 외에는 이미지 첨부 여부와 메시지 내용의 바이트 수로 SMS, LMS, MMS 중 하나를 판별합니다.
+ * @param message 메시지 파라미터
+ */
+export function detectMessageType(
+  message: Pick<
+    MessageParameter,
+    | 'text'
+    | 'subject'
+    | 'imageId'
+    | 'type'
+    | 'kakaoOptions'
+    | 'rcsOptions'
+    | 'naverOptions'
+    | 'voiceOptions'
+    | 'faxOptions'
+  >,
+): MessageTypeDetectionResult {
+  const text = getEucKrByteLength(message.text ?? '');
+  const subject = getEucKrByteLength(message.subject ?? '');
+  const unencodableCharacters = [...text.unencodableCharacters];
+  subject.unencodableCharacters.forEach(character => {
+    if (!unencodableCharacters.includes(character)) {
+      unencodableCharacters.push(character);
+    }
+  });
+
+  let type: MessageType;
+  if (message.type) {
+    type = message.type;
+  } else if (message.kakaoOptions?.templateId) {
+    type = 'ATA';
+  } else if (message.kakaoOptions) {
+    type = message.kakaoOptions.imageId ? 'CTI' : 'CTA';
+  } else if (message.voiceOptions) {
+    type = 'VOICE';
+  } else if (message.faxOptions) {
+    type = 'FAX';
+  } else if (message.naverOptions) {
+    type = 'NSA';
+  } else if (message.rcsOptions?.templateId) {
+    type = 'RCS_TPL';
+  } else if (message.rcsOptions) {
+    if (message.imageId) {
+      type = 'RCS_MMS';
+    } else if (text.bytes > messageByteLimits.SMS.text) {
+      type = 'RCS_LMS';
+    } else {
+      type = 'RCS_SMS';
+    }
+  } else if (message.imageId) {
+    type = 'MMS';
+  } else if (text.bytes > messageByteLimits.SMS.text) {
+    type = 'LMS';
+  } else {
+    type = 'SMS';
+  }
+
+  const limit =
+    type === 'SMS' || type === 'LMS' || type === 'MMS'
+      ? messageByteLimits[type]
+      : undefined;
+  const exceeded =
+    limit !== undefined &&
+    (text.bytes > limit.text ||
+      (limit.subject > 0 && subject.bytes > limit.subject));
+  return {
+    type,
+    textBytes: text.bytes,
+    subjectBytes: subject.bytes,
+    limit,
+    exceeded,
+    unencodableCharacters,
+  };
+}
@@ -0,0 +1,55 @@
+import {RequestConfig} from '../requests/messageRequest';
+
+/**
+ * @description 미들웨어에 전달되는 요청 정보
+ * @property request API URI, HTTP method, 요청 단위 옵션
+ * @property headers 요청 시 함께 보낼 HTTP 헤더, 미들웨어에서 값을 추가하거나 수정할 수 있습니다.
+ * @property body JSON 문자열로 직렬화 된 request body 데이터, 미들웨어에서 수정할 수 있습니다.
+ */
+export type MiddlewareRequestContext = {
+  request: Readonly<RequestConfig>;
+  headers: Record<string, string>;
+  body?: string;
+};
+
+/**
+ * @description 미들웨어에 전달되는 응답 정보
+ * @property response API 응답 데이터
+ * @property duration 재시도를 포함한 전체 요청 소요 시간(ms)
+ */
+export type MiddlewareResponseContext = Readonly<MiddlewareRequestContext> & {
+  response: unknown;
+  duration: number;
+};
+
+/**
+ * @description 미들웨어에 전달되는 오류 정보
+ * @property error 요청 중 발생한 에러
+ * @property duration 재시도를 포함한 전체 요청 소요 시간(ms)
+ */
+export type MiddlewareErrorContext = Readonly<MiddlewareRequestContext> & {
+  error: unknown;
+  duration: number;
+};
+
+/**
+ * @name Middleware
+ * @description SolapiMessageService의 모든 API 요청 전후에 실행되는 미들웨어
+ * 등록된 순서대로 실행되며, beforeRequest에서 에러를 발생시키면 요청이 중단됩니다.
+ */
+export interface Middleware {
+  /**
+   * API 요청 전에 실행됩니다. 재시도 시에는 다시 실행되지 않습니다.
+   */
+  beforeRequest?(context: MiddlewareRequestContext): void | Promise<void>;
+
+  /**
+   * API 응답을 성공적으로 받은 뒤 실행됩니다.
+   */
+  afterResponse?(context: MiddlewareResponseContext): void | Promise<void>;
+
+  /**
+   * API 요청이 최종적으로 실패했을 경우 실행됩니다.
+   */
+  onError?(context: MiddlewareErrorContext): void | Promise<void>;
+}
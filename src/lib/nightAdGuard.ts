@@ -0,0 +1,76 @@
+import {MessageParameter} from '../models/message';
+
+/**
+ * @description 야간 광고 메시지 발송 제한 방식<br>
+ * reject: 발송하지 않고 에러 발생, reschedule: 발송 가능한 시간(08:00 KST)으로 예약 발송
+ */
+export type NightAdGuardMode = 'reject' | 'reschedule';
+
+/**
+ * 한국 표준시(KST)의 UTC 기준 시차(ms), 한국은 일광 절약 시간제를 사용하지 않습니다.
+ */
+const kstOffset = 9 * 60 * 60 * 1000;
+
+/**
+ * 광고성 메시지 발송이 제한되는 시간(KST, 21:00 ~ 08:00)
+ */
+const nightStartHour = 21;
+const nightEndHour = 8;
+
+/**
+ * 광고성 메시지인지 확인하는 함수
+ * 광고성 문자 여부(advertising), 카카오 친구톡 광고 여부(adFlag), RCS 광고 여부(commercialType)가 설정되어 있거나
+ * 메시지 내용이 "(광고)"로 시작하는 경우 광고성 메시지로 판단합니다.
+ * @param message 메시지 파라미터
+ */
+export function isAdvertisingMessage(
+  message: Pick<
+    MessageParameter,
+    'text' | 'advertising' | 'kakaoOptions' | 'rcsOptions'
+  >,
+): boolean {
+  return (
+    message.advertising === true ||
+    message.kakaoOptions?.adFlag === true ||
+    message.rcsOptions?.commercialType === true ||
+    (message.text ?? '').trimStart().startsWith('(광고)')
+  );
+}
+
+/**
+ * 메시지 목록 내 광고성 메시지의 순번 목록(0부터 시작)을 반환하는 함수
+ * @param messages 메시지 파라미터 목록
+ */
+export function getAdvertisingMessageIndexes(
+  messages: Array<Parameters<typeof isAdvertisingMessage>[0]>,
+): Array<number> {
+  return messages
+    .map((message, index) => (isAdvertisingMessage(message) ? index : -1))
+    .filter(index => index >= 0);
+}
+
+/**
+ * 광고성 메시지 발송이 제한되는 야간 시간(KST 21:00 ~ 08:00)인지 확인하는 함수
+ * @param date 발송 시각
+ */
+export function isNightTime(date: Date): boolean {
+  const hour = new Date(date.getTime() + kstOffset).getUTCHours();
+  return hour >= nightStartHour || hour < nightEndHour;
+}
+
+/**
+ * 광고성 메시지를 발송할 수 있는 가장 가까운 시각을 계산하는 함수
+ * 야간 시간이 아닐 경우 입력한 시각을 그대로 반환하며, 야간 시간일 경우 다음 08:00(KST)을 반환합니다.
+ * @param date 발송 시각
+ */
+export function getNextAdvertisingTime(date: Date): Date {
+  if (!isNightTime(date)) {
+    return date;
+  }
+  const kstDate = new Date(date.getTime() + kstOffset);
+  if (kstDate.getUTCHours() >= nightStartHour) {
+    kstDate.setUTCDate(kstDate.getUTCDate() + 1);
+  }
+  kstDate.setUTCHours(nightEndHour, 0, 0, 0);
+  return new Date(kstDate.getTime() - kstOffset);
+}
@@ -0,0 +1,55 @@
+/**
+ * @name PaginationOptions
+ * @description 목록 조회 반복자(iterator) 설정
+ */
+export type PaginationOptions = {
+  /**
+   * 한 번의 API 요청으로 가져올 항목 수(limit), 서버 설정에 따라 실제 항목 수와 다를 수 있습니다.
+   */
+  pageSize?: number;
+
+  /**
+   * 반복자가 반환할 최대 항목 수, 값 미기입시 다음 페이지가 없을 때까지 모든 항목을 반환합니다.
+   */
+  maxItems?: number;
+};
+
+/**
+ * @description 목록 조회 API 한 페이지의 항목과 다음 페이지 조회 키
+ */
+export type Page<T> = {
+  items: Array<T>;
+  nextKey?: string | null;
+};
+
+/**
+ * 목록 조회 API의 nextKey를 따라가며 항목을 하나씩 반환하는 비동기 반복자를 생성하는 함수
+ * for await 반복문에서 break 등으로 빠져나오면 다음 페이지를 더 이상 조회하지 않습니다.
+ * @param fetchPage startKey, limit 값으로 한 페이지를 조회하는 함수
+ * @param startKey 조회를 시작할 키
+ * @param options 페이지 크기, 최대 항목 수 등 반복자 설정
+ */
+export default async function* paginate<T>(
+  fetchPage: (startKey?: string, limit?: number) => Promise<Page<T>>,
+  startKey?: string,
+  options?: PaginationOptions,
+): AsyncGenerator<T, void, undefined> {
+  const {pageSize, maxItems} = options ?? {};
+  let remaining = maxItems ?? Infinity;
+  let currentKey = startKey;
+  while (remaining > 0) {
+    const limit =
+      pageSize !== undefined && maxItems !== undefined
+        ? Math.min(pageSize, remaining)
+        : pageSize;
+    const {items, nextKey} = await fetchPage(currentKey, limit);
+    for (const item of items.slice(0, remaining)) {
+      yield item;
+    }
+    remaining -= items.length;
+    if (!nextKey || nextKey === currentKey || items.length === 0) {
+      return;
+    }
+    currentKey = nextKey;
+  }
+}
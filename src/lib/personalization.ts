@@ -0,0 +1,112 @@
+import {Message, MessageParameter} from '../models/message';
+import {
+  InvalidRecipientsError,
+  MissingTemplateVariable,
+  MissingTemplateVariablesError,
+} from '../errors/defaultError';
+import {detectMessageType} from './messageTypeDetector';
+import {findInvalidRecipients} from './phoneNumber';
+
+/**
+ * @name PersonalizationTemplate
+ * @description 수신자 별 개인화 메시지의 공통 템플릿
+ * text, subject에 #{변수명} 형식으로 치환할 변수를 입력할 수 있습니다.
+ */
+export type PersonalizationTemplate = Omit<
+  MessageParameter,
+  'to' | 'type' | 'autoTypeDetect' | 'kakaoOptions'
+> & {
+  text: string;
+};
+
+/**
+ * @name PersonalizationRecipient
+ * @description 개인화 메시지의 수신자 정보
+ * variables의 키는 "name", "#{name}" 형식 모두 사용할 수 있습니다.
+ */
+export type PersonalizationRecipient = {
+  to: string;
+  variables: Record<string, string | number>;
+  country?: string;
+  customFields?: Record<string, string>;
+};
+
+const templateVariablePattern = /#\{([^{}]+)\}/g;
+
+/**
+ * 템플릿 문자열의 변수를 치환하는 함수
+ * @param template 템플릿 문자열
+ * @param variables 변수 값 목록
+ * @param missingVariables 값이 없는 변수 이름을 담을 배열
+ */
+function renderTemplate(
+  template: string,
+  variables: Record<string, string | number>,
+  missingVariables: Array<string>,
+): string {
+  return template.replace(
+    templateVariablePattern,
+    (placeholder, name: string) => {
+      const value = variables[name] ?? variables[placeholder];
+      if (value === undefined || value === null) {
+        if (!missingVariables.includes(name)) {
+          missingVariables.push(name);
+        }
+        return placeholder;
+      }
+      return String(value);
+    },
+  );
+}
+
+/**
+ * 하나의 문자 템플릿과 수신자 별 변수 값으로 수신자 별 메시지를 만드는 함수
+ * 변수 치환 후 메시지 내용의 길이가 달라지므로 메시지 유형(SMS, LMS, MMS)은 메시지 별로 다시 판별됩니다.
+ * @param template 메시지 템플릿
+ * @param recipients 수신자 및 변수 값 목록
+ * @throws MissingTemplateVariablesError 템플릿 변수 중 값이 입력되지 않은 변수가 있을 경우 발생합니다.
+ * @throws InvalidRecipientsError 수신/발신번호 형식이 올바르지 않을 경우 발생합니다.
+ */
+export function personalizeMessages(
+  template: PersonalizationTemplate,
+  recipients: Array<PersonalizationRecipient>,
+): Array<Message> {
+  const missingTemplateVariables: Array<MissingTemplateVariable> = [];
+  const parameters = recipients.map((recipient, index) => {
+    const missingVariables: Array<string> = [];
+    const text = renderTemplate(
+      template.text,
+      recipient.variables,
+      missingVariables,
+    );
+    const subject =
+      template.subject !== undefined
+        ? renderTemplate(
+            template.subject,
+            recipient.variables,
+            missingVariables,
+          )
+        : undefined;
+    if (missingVariables.length > 0) {
+      missingTemplateVariables.push({index, variables: missingVariables});
+    }
+    const parameter: MessageParameter = {
+      ...template,
+      to: recipient.to,
+      text,
+      subject,
+      country: recipient.country ?? template.country,
+      customFields: recipient.customFields ?? template.customFields,
+    };
+    parameter.type = detectMessageType(parameter).type;
+    return parameter;
+  });
+  if (missingTemplateVariables.length > 0) {
+    throw new MissingTemplateVariablesError(missingTemplateVariables);
+  }
+  const invalidRecipients = findInvalidRecipients(parameters);
+  if (invalidRecipients.length > 0) {
+    throw new InvalidRecipientsError(invalidRecipients);
+  }
+  return parameters.map(parameter => new Message(parameter));
+}
@@ -0,0 +1,166 @@
+import {MessageParameter} from '../models/message';
+import {
+  InvalidPhoneNumberError,
+  InvalidRecipient,
+} from '../errors/defaultError';
+
+const koreaCountryCode = '82';
+
+/**
+ * 대표번호(15XX, 16XX, 18XX) 형식, 지역번호가 없으므로 앞에 0을 붙이지 않습니다.
+ */
+const representativeNumberPattern = /^1[568]\d{6}$/;
+
+/**
+ * 국내 전화번호 형식 목록
+ * 휴대전화(010 등), 서울/지역 유선전화, 인터넷전화(070), 안심번호(050X), 수신자부담(080), 대표번호(15XX, 16XX, 18XX)
+ */
+const koreanPhoneNumberPatterns = [
+  /^01[016789]\d{7,8}$/,
+  /^02\d{7,8}$/,
+  /^0[3-6][1-5]\d{7,8}$/,
+  /^070\d{8}$/,
+  /^050\d{8,9}$/,
+  /^080\d{7,8}$/,
+  representativeNumberPattern,
+];
+
+/**
+ * 국가번호를 숫자만 남긴 형태로 변환하는 함수(예) "+82" -> "82")
+ * @param country 국가번호
+ */
+export function normalizeCountryCode(country: string): string {
+  const normalized = country.trim().replace(/^\+/, '');
+  if (!/^\d{1,3}$/.test(normalized)) {
+    throw new InvalidPhoneNumberError(
+      country,
+      `올바르지 않은 국가번호입니다: ${country}`,
+    );
+  }
+  return normalized;
+}
+
+/**
+ * 전화번호에서 하이픈, 공백, 괄호 등을 제거하고 SOLAPI에서 사용하는 형식으로 변환하는 함수
+ * 국내 번호는 "+82 10-1234-5678" 형식도 "01012345678"로 변환되며, 해외 번호는 country 값과 함께 E.164 형식(예) "+1 202-555-0100")으로 입력할 수 있습니다.
+ * @param phoneNumber 전화번호
+ * @param country 국가번호, 값 미기입시 국내 번호로 판단합니다.
+ * @throws InvalidPhoneNumberError 전화번호 형식이 올바르지 않을 경우 발생합니다.
+ */
+export function normalizePhoneNumber(
+  phoneNumber: string,
+  country?: string,
+): string {
+  const countryCode =
+    country !== undefined ? normalizeCountryCode(country) : undefined;
+  const compact = phoneNumber.trim().replace(/[\s\-().]/g, '');
+  if (!/^\+?\d+$/.test(compact)) {
+    throw new InvalidPhoneNumberError(
+      phoneNumber,
+      `전화번호에 숫자 외의 문자가 포함되어 있습니다: ${phoneNumber}`,
+    );
+  }
+
+  if (countryCode !== undefined && countryCode !== koreaCountryCode) {
+    let nationalNumber = compact;
+    if (compact.startsWith('+')) {
+      if (!compact.startsWith(`+${countryCode}`)) {
+        throw new InvalidPhoneNumberError(
+          phoneNumber,
+          `전화번호의 국가번호가 country 값(${countryCode})과 일치하지 않습니다: ${phoneNumber}`,
+        );
+      }
+      nationalNumber = compact.slice(countryCode.length + 1);
+    }
+    if (
+      nationalNumber.length < 4 ||
+      countryCode.length + nationalNumber.length > 15
+    ) {
+      throw new InvalidPhoneNumberError(
+        phoneNumber,
+        `올바르지 않은 해외 전화번호입니다: ${phoneNumber}`,
+      );
+    }
+    return nationalNumber;
+  }
+
+  let domesticNumber = compact;
+  if (compact.startsWith('+')) {
+    if (!compact.startsWith(`+${koreaCountryCode}`)) {
+      throw new InvalidPhoneNumberError(
+        phoneNumber,
+        `해외 전화번호는 country 값을 함께 입력해야 합니다: ${phoneNumber}`,
+      );
+    }
+    domesticNumber = compact.slice(koreaCountryCode.length + 1);
+    if (
+      !domesticNumber.startsWith('0') &&
+      !representativeNumberPattern.test(domesticNumber)
+    ) {
+      domesticNumber = `0${domesticNumber}`;
+    }
+  }
+  if (
+    !koreanPhoneNumberPatterns.some(pattern => pattern.test(domesticNumber))
+  ) {
+    throw new InvalidPhoneNumberError(
+      phoneNumber,
+      `올바르지 않은 전화번호입니다: ${phoneNumber}`,
+    );
+  }
+  return domesticNumber;
+}
+
+/**
+ * 전화번호 형식이 올바른지 확인하는 함수
+ * @param phoneNumber 전화번호
+ * @param country 국가번호, 값 미기입시 국내 번호로 판단합니다.
+ */
+export function isValidPhoneNumber(
+  phoneNumber: string,
+  country?: string,
+): boolean {
+  try {
+    normalizePhoneNumber(phoneNumber, country);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * 발송 요청 전 메시지 목록의 수신번호, 발신번호 형식을 확인하는 함수
+ * 발신번호는 국내 번호 형식으로 확인합니다.
+ * @param messages 메시지 목록
+ * @return 올바르지 않은 번호 목록, 모두 올바를 경우 빈 배열을 반환합니다.
+ */
+export function findInvalidRecipients(
+  messages: Array<MessageParameter>,
+): Array<InvalidRecipient> {
+  const invalidRecipients: Array<InvalidRecipient> = [];
+  const check = (
+    index: number,
+    field: InvalidRecipient['field'],
+    phoneNumber: string,
+    country?: string,
+  ) => {
+    try {
+      normalizePhoneNumber(phoneNumber, country);
+    } catch (error) {
+      invalidRecipients.push({
+        index,
+        field,
+        phoneNumber,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+  messages.forEach((message, index) => {
+    const recipients = Array.isArray(message.to) ? message.to : [message.to];
+    recipients.forEach(to => check(index, 'to', to, message.country));
+    if (message.from !== undefined) {
+      check(index, 'from', message.from);
+    }
+  });
+  return invalidRecipients;
+}
@@ -0,0 +1,215 @@
+/**
+ * @description API 주소 별 요청 제한 구분
+ * messages: 메시지 발송/조회, kakao: 카카오 채널/템플릿, storage: 파일 업로드, cash: 잔액 조회, iam: 수신 거부 조회
+ */
+export type RateLimitEndpointFamily =
+  | 'messages'
+  | 'kakao'
+  | 'storage'
+  | 'cash'
+  | 'iam';
+
+/**
+ * @name RateLimitRule
+ * @description 요청 제한 규칙, 값을 기입하지 않은 항목은 제한하지 않습니다.
+ */
+export type RateLimitRule = {
+  /**
+   * 동시에 진행할 수 있는 최대 요청 수
+   */
+  maxConcurrent?: number;
+
+  /**
+   * 초당 최대 요청 수(token bucket 충전 속도)
+   */
+  requestsPerSecond?: number;
+
+  /**
+   * 순간적으로 허용할 최대 요청 수(token bucket 크기), 값 미기입시 requestsPerSecond 값을 사용합니다.
+   */
+  burst?: number;
+
+  /**
+   * 429(요청 한도 초과) 응답을 받았을 때 요청을 멈출 시간(ms)
+   * 응답에 Retry-After 헤더가 있을 경우 해당 값을 사용합니다. 값 미기입시 1000ms로 설정됩니다.
+   */
+  throttleBackoff?: number;
+};
+
+/**
+ * @name RateLimitOptions
+ * @description 클라이언트 단위 요청 제한 설정
+ * 기본 규칙은 API 주소 구분 별로 따로 적용되며, endpoints에 기입한 규칙으로 구분 별 규칙을 덮어씌울 수 있습니다.
+ */
+export type RateLimitOptions = RateLimitRule & {
+  endpoints?: Partial<Record<RateLimitEndpointFamily, RateLimitRule>>;
+};
+
+const endpointFamilies: Array<RateLimitEndpointFamily> = [
+  'messages',
+  'kakao',
+  'storage',
+  'cash',
+  'iam',
+];
+
+const defaultThrottleBackoff = 1000;
+
+class RateLimitBucket {
+  private active = 0;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private timer?: ReturnType<typeof setTimeout>;
+  private readonly queue: Array<() => void> = [];
+
+  constructor(private readonly rule: RateLimitRule) {
+    this.tokens = this.capacity;
+  }
+
+  private get capacity(): number {
+    return this.rule.burst ?? this.rule.requestsPerSecond ?? Infinity;
+  }
+
+  acquire(signal?: AbortSignal): Promise<() => void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new Error('Aborted'));
+        return;
+      }
+      const onAbort = () => {
+        const index = this.queue.indexOf(grant);
+        if (index >= 0) {
+          this.queue.splice(index, 1);
+        }
+        reject(new Error('Aborted'));
+      };
+      const grant = () => {
+        signal?.removeEventListener('abort', onAbort);
+        let released = false;
+        resolve(() => {
+          if (!released) {
+            released = true;
+            this.active--;
+            this.drain();
+          }
+        });
+      };
+      signal?.addEventListener('abort', onAbort, {once: true});
+      this.queue.push(grant);
+      this.drain();
+    });
+  }
+
+  throttle(milliseconds: number) {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + milliseconds);
+  }
+
+  private refill() {
+    const now = Date.now();
+    const {requestsPerSecond} = this.rule;
+    if (requestsPerSecond !== undefined) {
+      const elapsed = (now - this.lastRefill) / 1000;
+      this.tokens = Math.min(
+        this.capacity,
+        this.tokens + elapsed * requestsPerSecond,
+      );
+    }
+    this.lastRefill = now;
+  }
+
+  private schedule(milliseconds: number) {
+    if (this.timer !== undefined) {
+      return;
+    }
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.drain();
+    }, Math.max(0, Math.ceil(milliseconds)));
+  }
+
+  private drain() {
+    this.refill();
+    while (this.queue.length > 0) {
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        this.schedule(this.pausedUntil - now);
+        return;
+      }
+      if (
+        this.rule.maxConcurrent !== undefined &&
+        this.active >= this.rule.maxConcurrent
+      ) {
+        return;
+      }
+      if (this.rule.requestsPerSecond !== undefined && this.tokens < 1) {
+        this.schedule(((1 - this.tokens) / this.rule.requestsPerSecond) * 1000);
+        return;
+      }
+      this.tokens--;
+      this.active++;
+      this.queue.shift()?.();
+    }
+  }
+}
+
+/**
+ * API 주소 구분 별로 동시 요청 수, 초당 요청 수를 제한하는 클라이언트 측 요청 제한 장치
+ * 제한을 넘는 요청은 바로 실패하지 않고 대기열에 쌓였다가 순서대로 처리됩니다.
+ */
+export class RateLimiter {
+  private readonly buckets = new Map<string, RateLimitBucket>();
+
+  constructor(private readonly options: RateLimitOptions) {}
+
+  /**
+   * API 주소의 경로를 통해 요청 제한 구분을 찾는 함수
+   * @param url API 주소
+   */
+  static getEndpointFamily(url: string): RateLimitEndpointFamily | undefined {
+    const pathname = url.replace(/^[a-z]+:\/\/[^/]+/i, '').split('?')[0];
+    return endpointFamilies.find(family =>
+      pathname.split('/').includes(family),
+    );
+  }
+
+  private getBucket(url: string): RateLimitBucket {
+    const family = RateLimiter.getEndpointFamily(url);
+    const key = family ?? 'default';
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      const {endpoints, ...defaultRule} = this.options;
+      bucket = new RateLimitBucket({
+        ...defaultRule,
+        ...(family ? endpoints?.[family] : undefined),
+      });
+      this.buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  /**
+   * 요청 가능한 상태가 될 때까지 대기한 뒤, 요청 완료 시 호출해야 할 release 함수를 반환합니다.
+   * @param url API 주소
+   * @param signal 대기를 취소하기 위한 AbortSignal
+   */
+  acquire(url: string, signal?: AbortSignal): Promise<() => void> {
+    return this.getBucket(url).acquire(signal);
+  }
+
+  /**
+   * 요청 한도 초과 응답을 받았을 때 해당 API 주소 구분의 요청을 일정 시간 멈춥니다.
+   * @param url API 주소
+   * @param milliseconds 요청을 멈출 시간(ms), 미기입 시 throttleBackoff 설정 값을 사용합니다.
+   */
+  throttle(url: string, milliseconds?: number) {
+    const family = RateLimiter.getEndpointFamily(url);
+    const throttleBackoff =
+      (family
+        ? this.options.endpoints?.[family]?.throttleBackoff
+        : undefined) ??
+      this.options.throttleBackoff ??
+      defaultThrottleBackoff;
+    this.getBucket(url).throttle(milliseconds ?? throttleBackoff);
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * @name RetryPolicy
+ * @description 일시적인 오류(네트워크 오류, 5xx 등) 발생 시 API 요청을 재시도하는 정책
+ */
+export type RetryPolicy = {
+  /**
+   * 최초 요청을 포함한 최대 요청 횟수, 1일 경우 재시도하지 않습니다.
+   */
+  maxAttempts: number;
+
+  /**
+   * 재시도 대기 시간의 기준값(ms), 재시도 할 때마다 2배씩 늘어납니다.
+   */
+  baseDelay: number;
+
+  /**
+   * 재시도 대기 시간의 최대값(ms)
+   */
+  maxDelay: number;
+
+  /**
+   * 재시도 대기 시간에 무작위 값(full jitter)을 적용할 지에 대한 여부
+   */
+  jitter: boolean;
+
+  /**
+   * 재시도 대상 HTTP 상태 코드 목록
+   */
+  retryableStatusCodes: Array<number>;
+
+  /**
+   * 재시도 대상 네트워크 오류 코드 목록(예) ECONNRESET, ETIMEDOUT 등)
+   */
+  retryableErrorCodes: Array<string>;
+
+  /**
+   * 응답의 Retry-After 헤더 값을 대기 시간으로 사용할 지에 대한 여부
+   */
+  respectRetryAfter: boolean;
+
+  /**
+   * 발송, 그룹 메시지 추가 등 POST, PUT 요청도 모든 재시도 대상 오류에 대해 재시도할 지에 대한 여부
+   * 값이 false일 경우 POST, PUT 요청은 서버에서 처리되지 않은 것이 확실한 경우(429 응답, 연결 실패)에만 재시도합니다.
+   * 값을 true로 설정할 경우 서버에서 이미 처리된 요청을 다시 보낼 수 있어 메시지가 중복 발송되거나 중복 추가될 수 있습니다.
+   */
+  retryNonIdempotent: boolean;
+};
+
+export const defaultRetryPolicy: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelay: 500,
+  maxDelay: 10000,
+  jitter: true,
+  retryableStatusCodes: [429, 500, 502, 503, 504],
+  retryableErrorCodes: [
+    'ECONNRESET',
+    'ECONNREFUSED',
+    'ECONNABORTED',
+    'ETIMEDOUT',
+    'EPIPE',
+    'ENOTFOUND',
+    'EAI_AGAIN',
+  ],
+  respectRetryAfter: true,
+  retryNonIdempotent: false,
+};
+
+const idempotentMethods = ['GET', 'HEAD', 'OPTIONS', 'DELETE'];
+
+/**
+ * 요청이 서버에 도달하기 전에 실패했음이 확실한 네트워크 오류 코드 목록
+ */
+const notSentErrorCodes = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN'];
+
+/**
+ * 요청이 서버에서 처리되지 않았음이 확실한 HTTP 상태 코드 목록
+ */
+const notProcessedStatusCodes = [429];
+
+/**
+ * 사용자 설정 값을 기본 재시도 정책과 합쳐 최종 재시도 정책을 만드는 함수
+ * @param policy 사용자 재시도 정책, false일 경우 재시도하지 않습니다.
+ */
+export function resolveRetryPolicy(
+  policy?: Partial<RetryPolicy> | false,
+): RetryPolicy {
+  if (policy === false) {
+    return {...defaultRetryPolicy, maxAttempts: 1};
+  }
+  return {...defaultRetryPolicy, ...policy};
+}
+
+function isIdempotentMethod(method: string): boolean {
+  return idempotentMethods.includes(method.toUpperCase());
+}
+
+/**
+ * fetch 시 발생한 네트워크 오류의 코드를 가져오는 함수
+ * node-fetch는 error.code, Node.js 내장 fetch는 error.cause.code에 오류 코드가 들어있습니다.
+ * @param error fetch 시 발생한 오류
+ */
+export function getNetworkErrorCode(error: unknown): string | undefined {
+  if (typeof error !== 'object' || error === null) {
+    return undefined;
+  }
+  const {code, cause} = error as {code?: unknown; cause?: {code?: unknown}};
+  if (typeof code === 'string') {
+    return code;
+  }
+  if (typeof cause?.code === 'string') {
+    return cause.code;
+  }
+  return undefined;
+}
+
+/**
+ * HTTP 응답 상태 코드를 기준으로 재시도 여부를 판단하는 함수
+ * @param policy 재시도 정책
+ * @param method HTTP method
+ * @param status HTTP 응답 상태 코드
+ * @param attempt 현재까지 요청한 횟수
+ */
+export function shouldRetryStatus(
+  policy: RetryPolicy,
+  method: string,
+  status: number,
+  attempt: number,
+): boolean {
+  if (attempt >= policy.maxAttempts) {
+    return false;
+  }
+  if (!policy.retryableStatusCodes.includes(status)) {
+    return false;
+  }
+  return (
+    policy.retryNonIdempotent ||
+    isIdempotentMethod(method) ||
+    notProcessedStatusCodes.includes(status)
+  );
+}
+
+/**
+ * 네트워크 오류를 기준으로 재시도 여부를 판단하는 함수
+ * @param policy 재시도 정책
+ * @param method HTTP method
+ * @param error fetch 시 발생한 오류
+ * @param attempt 현재까지 요청한 횟수
+ */
+export function shouldRetryError(
+  policy: RetryPolicy,
+  method: string,
+  error: unknown,
+  attempt: number,
+): boolean {
+  if (attempt >= policy.maxAttempts) {
+    return false;
+  }
+  const errorCode = getNetworkErrorCode(error);
+  if (!errorCode || !policy.retryableErrorCodes.includes(errorCode)) {
+    return false;
+  }
+  return (
+    policy.retryNonIdempotent ||
+    isIdempotentMethod(method) ||
+    notSentErrorCodes.includes(errorCode)
+  );
+}
+
+/**
+ * Retry-After 헤더 값(초 또는 HTTP 날짜)을 대기 시간(ms)으로 변환하는 함수
+ * @param retryAfter Retry-After 헤더 값
+ */
+export function parseRetryAfter(retryAfter: string): number | undefined {
+  const seconds = Number(retryAfter);
+  if (retryAfter.trim() !== '' && !isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(retryAfter);
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+  return undefined;
+}
+
+/**
+ * 재시도 전 대기할 시간(ms)을 계산하는 함수
+ * @param policy 재시도 정책
+ * @param attempt 현재까지 요청한 횟수
+ * @param retryAfter 응답의 Retry-After 헤더 값
+ */
+export function getRetryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  retryAfter?: string | null,
+): number {
+  if (policy.respectRetryAfter && retryAfter) {
+    const retryAfterDelay = parseRetryAfter(retryAfter);
+    if (retryAfterDelay !== undefined) {
+      return Math.min(retryAfterDelay, policy.maxDelay);
+    }
+  }
+  const exponentialDelay = Math.min(
+    policy.maxDelay,
+    policy.baseDelay * Math.pow(2, attempt - 1),
+  );
+  if (policy.jitter) {
+    return Math.floor(Math.random() * exponentialDelay);
+  }
+  return exponentialDelay;
+}
@@ -0,0 +1,294 @@
+import {Message} from '../models/message';
+import {FailedMessage} from '../responses/sendManyDetailResponse';
+
+/**
+ * @description 메시지 상태 코드 분류
+ * PENDING: 발송 대기, SUCCESS: 수신 완료, CARRIER_FAILURE: 이통사/단말기 오류로 인한 실패,
+ * INVALID_NUMBER: 잘못된 수신/발신번호, BLOCKED: 수신 거부 및 스팸 차단, INSUFFICIENT_BALANCE: 잔액 부족,
+ * KAKAO: 카카오 알림톡/친구톡 발송 실패, REQUEST_FAILURE: 접수 실패, UNKNOWN: 알 수 없는 상태 코드
+ */
+export type StatusCodeCategory =
+  | 'PENDING'
+  | 'SUCCESS'
+  | 'CARRIER_FAILURE'
+  | 'INVALID_NUMBER'
+  | 'BLOCKED'
+  | 'INSUFFICIENT_BALANCE'
+  | 'KAKAO'
+  | 'REQUEST_FAILURE'
+  | 'UNKNOWN';
+
+/**
+ * @name StatusCodeInfo
+ * @description 메시지 상태 코드 정보
+ * @property final 더 이상 상태가 바뀌지 않는 최종 상태인지에 대한 여부
+ * @property retryable 같은 메시지를 다시 발송했을 때 성공할 가능성이 있는지에 대한 여부
+ * @see https://developers.solapi.com/references/message-status-codes
+ */
+export type StatusCodeInfo = {
+  code?: string;
+  description: {
+    ko: string;
+    en: string;
+  };
+  category: StatusCodeCategory;
+  final: boolean;
+  retryable: boolean;
+};
+
+type StatusCodeEntry = Omit<StatusCodeInfo, 'code'>;
+
+function carrierFailure(
+  ko: string,
+  en: string,
+  retryable: boolean,
+): StatusCodeEntry {
+  return {
+    description: {ko, en},
+    category: 'CARRIER_FAILURE',
+    final: true,
+    retryable,
+  };
+}
+
+function finalFailure(
+  category: StatusCodeCategory,
+  ko: string,
+  en: string,
+  retryable = false,
+): StatusCodeEntry {
+  return {description: {ko, en}, category, final: true, retryable};
+}
+
+/**
+ * SOLAPI 메시지 상태 코드 목록
+ */
+export const statusCodes: Readonly<Record<string, StatusCodeEntry>> = {
+  '1020': finalFailure(
+    'INVALID_NUMBER',
+    '수신번호 형식 오류',
+    'Invalid recipient number format',
+  ),
+  '1021': finalFailure(
+    'INVALID_NUMBER',
+    '발신번호 형식 오류',
+    'Invalid sender number format',
+  ),
+  '1030': finalFailure(
+    'INSUFFICIENT_BALANCE',
+    '잔액 부족',
+    'Insufficient balance',
+    true,
+  ),
+  '2000': {
+    description: {
+      ko: '정상 접수(이통사로 접수 예정)',
+      en: 'Accepted, waiting to be sent to the carrier',
+    },
+    category: 'PENDING',
+    final: false,
+    retryable: false,
+  },
+  '3000': {
+    description: {
+      ko: '이통사로 접수 완료(수신 결과 대기)',
+      en: 'Sent to the carrier, waiting for the delivery report',
+    },
+    category: 'PENDING',
+    final: false,
+    retryable: false,
+  },
+  '3040': carrierFailure('전송 시간 초과', 'Delivery timed out', true),
+  '3041': carrierFailure('단말기 통화 중', 'Handset busy', true),
+  '3042': carrierFailure('음영 지역', 'Out of coverage', true),
+  '3043': carrierFailure('단말기 전원 꺼짐', 'Handset powered off', true),
+  '3044': carrierFailure(
+    '단말기 메시지 저장 개수 초과',
+    'Handset message storage full',
+    true,
+  ),
+  '3045': carrierFailure(
+    '단말기 일시 서비스 정지',
+    'Handset service temporarily suspended',
+    true,
+  ),
+  '3046': carrierFailure('기타 단말기 문제', 'Other handset error', true),
+  '3047': finalFailure('BLOCKED', '착신 거절', 'Rejected by the recipient'),
+  '3048': carrierFailure('알 수 없는 오류', 'Unknown carrier error', true),
+  '3049': carrierFailure('메시지 형식 오류', 'Invalid message format', false),
+  '3050': carrierFailure(
+    '문자 수신 불가 단말기',
+    'Handset cannot receive messages',
+    false,
+  ),
+  '3051': carrierFailure(
+    '착신측 호 불가 상태',
+    'Recipient is unreachable',
+    true,
+  ),
+  '3052': carrierFailure(
+    '이통사 서버 운영자 삭제',
+    'Deleted by the carrier operator',
+    false,
+  ),
+  '3053': carrierFailure(
+    '이통사 서버 메시지 대기열 초과',
+    'Carrier message queue full',
+    true,
+  ),
+  '3054': finalFailure('BLOCKED', '스팸 차단', 'Blocked as spam'),
+  '3055': finalFailure(
+    'BLOCKED',
+    '스팸 차단(nospam.or.kr 등록 번호)',
+    'Blocked by the spam registry (nospam.or.kr)',
+  ),
+  '3056': carrierFailure(
+    '전송 실패(무선망)',
+    'Failed in the wireless network',
+    true,
+  ),
+  '3057': carrierFailure(
+    '전송 실패(무선망에서 단말기로 전송)',
+    'Failed between the wireless network and the handset',
+    true,
+  ),
+  '3058': carrierFailure('전송 경로 없음', 'No delivery route', false),
+  '3059': finalFailure('BLOCKED', '변작된 발신번호', 'Spoofed sender number'),
+  '3060': finalFailure(
+    'BLOCKED',
+    '사전 미등록 발신번호',
+    'Sender number is not registered',
+  ),
+  '3101': finalFailure(
+    'KAKAO',
+    '카카오 서버 오류로 발송 실패',
+    'Kakao server error',
+    true,
+  ),
+  '3103': finalFailure(
+    'KAKAO',
+    '유효하지 않은 카카오 채널(발신 프로필)',
+    'Invalid Kakao channel (sender profile)',
+  ),
+  '3104': finalFailure(
+    'KAKAO',
+    '카카오톡 미사용자',
+    'Recipient is not a KakaoTalk user',
+  ),
+  '3105': finalFailure(
+    'KAKAO',
+    '템플릿과 메시지 내용 불일치',
+    'Message does not match the template',
+  ),
+  '3106': finalFailure(
+    'KAKAO',
+    '알림톡 수신 차단 사용자',
+    'Recipient has blocked Alimtalk messages',
+  ),
+  '3108': finalFailure(
+    'KAKAO',
+    '메시지 발송 가능 시간이 아님(친구톡)',
+    'Outside the allowed sending hours (Friendtalk)',
+    true,
+  ),
+  '4000': {
+    description: {ko: '수신 완료', en: 'Received by the recipient'},
+    category: 'SUCCESS',
+    final: true,
+    retryable: false,
+  },
+};
+
+/**
+ * 상태 코드 목록에 없는 코드를 번호 대역으로 분류하는 함수
+ * 2XXX 대역은 발송 대기 상태로, 분류할 수 없는 대역은 최종 상태가 아닌 것으로 판단합니다.
+ * @param statusCode 메시지 상태 코드
+ */
+function getFallbackStatusCodeInfo(statusCode: string): StatusCodeEntry {
+  if (statusCode.startsWith('1')) {
+    return finalFailure(
+      'REQUEST_FAILURE',
+      '메시지 접수 실패',
+      'Message was not accepted',
+    );
+  }
+  if (statusCode.startsWith('31')) {
+    return finalFailure(
+      'KAKAO',
+      '카카오 메시지 발송 실패',
+      'Kakao message delivery failed',
+    );
+  }
+  if (statusCode.startsWith('2')) {
+    return {
+      description: {ko: '발송 대기', en: 'Waiting to be sent'},
+      category: 'PENDING',
+      final: false,
+      retryable: false,
+    };
+  }
+  if (statusCode.startsWith('3')) {
+    return carrierFailure('발송 실패', 'Delivery failed', false);
+  }
+  // 분류할 수 없는 코드는 이후 상태가 바뀔 수 있으므로 최종 상태로 판단하지 않습니다.
+  return {
+    description: {ko: '알 수 없는 상태 코드', en: 'Unknown status code'},
+    category: 'UNKNOWN',
+    final: false,
+    retryable: false,
+  };
+}
+
+/**
+ * 메시지 상태 코드의 설명, 분류, 최종 상태 여부, 재시도 가능 여부를 조회하는 함수
+ * 상태 코드가 없을 경우 발송 대기 상태로, 목록에 없는 코드일 경우 번호 대역에 따라 분류합니다.
+ * @param statusCode 메시지 상태 코드
+ */
+export function getStatusCodeInfo(statusCode?: string): StatusCodeInfo {
+  if (!statusCode) {
+    return {
+      description: {ko: '발송 대기', en: 'Waiting to be sent'},
+      category: 'PENDING',
+      final: false,
+      retryable: false,
+    };
+  }
+  return {
+    code: statusCode,
+    ...(statusCodes[statusCode] ?? getFallbackStatusCodeInfo(statusCode)),
+  };
+}
+
+/**
+ * 메시지 목록 조회, 그룹 내 메시지 목록 조회 등으로 받은 메시지의 상태 코드를 분류하는 함수
+ * @param message 메시지
+ */
+export function classifyMessage(
+  message: Pick<Message, 'statusCode'>,
+): StatusCodeInfo {
+  return getStatusCodeInfo(message.statusCode);
+}
+
+/**
+ * 발송 접수에 실패한 메시지의 상태 코드를 분류하는 함수
+ * 목록에 없는 상태 코드일 경우 응답의 statusMessage 값을 한국어 설명으로 사용합니다.
+ * @param failedMessage 발송 접수에 실패한 메시지
+ */
+export function classifyFailedMessage(
+  failedMessage: Pick<FailedMessage, 'statusCode' | 'statusMessage'>,
+): StatusCodeInfo {
+  const statusCodeInfo = getStatusCodeInfo(failedMessage.statusCode);
+  if (
+    failedMessage.statusMessage &&
+    (!failedMessage.statusCode || !(failedMessage.statusCode in statusCodes))
+  ) {
+    return {
+      ...statusCodeInfo,
+      description: {
+        ...statusCodeInfo.description,
+        ko: failedMessage.statusMessage,
+      },
+    };
+  }
+  return statusCodeInfo;
+}
@@ -0,0 +1,17 @@
+export type faxOptionRequest = {
+  fileIds: Array<string>;
+};
+
+/**
+ * 팩스 발송을 위한 옵션 모델
+ */
+export class FaxOption {
+  /**
+   * 팩스로 보낼 문서 파일 ID 목록, uploadFile 메소드로 FAX 타입 파일을 업로드하여 얻은 파일 ID를 입력합니다.
+   */
+  fileIds: Array<string>;
+
+  constructor(parameter: faxOptionRequest) {
+    this.fileIds = parameter.fileIds;
+  }
+}
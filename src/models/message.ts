@@ -1,4 +1,22 @@
 import {KakaoOption, kakaoOptionRequest} from './kakao/kakaoOption';
+import {RcsOption, rcsOptionRequest} from './rcs/rcsOption';
+import {NaverOption, naverOptionRequest} from './naver/naverOption';
+import {VoiceOption, voiceOptionRequest} from './voice/voiceOption';
+import {FaxOption, faxOptionRequest} from './fax/faxOption';
+import {normalizeCountryCode, normalizePhoneNumber} from '../lib/phoneNumber';
+import {
+  AlimtalkMessageParameter,
+  FaxMessageParameter,
+  FriendtalkMessageParameter,
+  LmsMessageParameter,
+  MessageBuilder,
+  MessageBuilderParameter,
+  MmsMessageParameter,
+  NaverMessageParameter,
+  RcsMessageParameter,
+  SmsMessageParameter,
+  VoiceMessageParameter,
+} from './messageBuilder';
 
 /**
  * @name MessageType 메시지 유형(단문 문자, 장문 문자, 알림톡 등)
@@ -13,6 +31,8 @@ import {KakaoOption, kakaoOptionRequest} from './kakao/kakaoOption';
  * RCS_MMS: RCS 사진 문자
  * RCS_TPL: RCS 템플릿
  * NSA: 네이버 스마트알림(톡톡)
+ * VOICE: 음성 메시지
+ * FAX: 팩스
  */
 export type MessageType =
   | 'SMS'
@@ -25,7 +45,9 @@ export type MessageType =
   | 'RCS_LMS'
   | 'RCS_MMS'
   | 'RCS_TPL'
-  | 'NSA';
+  | 'NSA'
+  | 'VOICE'
+  | 'FAX';
 
 export type MessageParameter = {
   to: string | Array<string>;
@@ -36,7 +58,12 @@ export type MessageParameter = {
   subject?: string;
   autoTypeDetect?: boolean;
   kakaoOptions?: kakaoOptionRequest;
+  rcsOptions?: rcsOptionRequest;
+  naverOptions?: naverOptionRequest;
+  voiceOptions?: voiceOptionRequest;
+  faxOptions?: faxOptionRequest;
   country?: string;
+  advertising?: boolean;
   customFields?: Record<string, string>;
 };
 
@@ -104,6 +131,26 @@ export class Message {
    */
   kakaoOptions?: KakaoOption;
 
+  /**
+   * RCS 메시지를 위한 프로퍼티
+   */
+  rcsOptions?: RcsOption;
+
+  /**
+   * 네이버 스마트알림(톡톡) 메시지를 위한 프로퍼티
+   */
+  naverOptions?: NaverOption;
+
+  /**
+   * 음성 메시지를 위한 프로퍼티
+   */
+  voiceOptions?: VoiceOption;
+
+  /**
+   * 팩스를 위한 프로퍼티
+   */
+  faxOptions?: FaxOption;
+
   /**
    * 해외 문자 발송을 위한 국가번호(예) "82", "1" 등)
    */
@@ -115,29 +162,161 @@ export class Message {
   log?: Array<object>;
 
   /**
-   * 메시지 상태 코드
+   * 메시지 상태 코드, getStatusCodeInfo 함수로 상태 코드의 설명과 분류를 조회할 수 있습니다.
    * @see https://developers.solapi.com/references/message-status-codes
    */
   statusCode?: string;
 
+  /**
+   * 알림톡 등의 발송 실패로 문자 대체 발송이 진행되었는지에 대한 여부
+   */
+  replacement?: boolean;
+
   /**
    * 사용자를 위한 사용자만의 커스텀 값을 입력할 수 있는 필드
    * 단, 오브젝트 내 키 값 모두 문자열 형태로 입력되어야 합니다.
    */
   customFields?: Record<string, string>;
 
+  /**
+   * 수신번호, 발신번호는 하이픈 등을 제거한 형태로 변환됩니다.
+   * 이전 버전에서는 입력한 번호를 그대로 사용했으나, 현재는 형식이 올바르지 않은 번호일 경우 API 요청 전에 에러가 발생합니다.
+   * @param parameter 메시지 파라미터
+   * @throws InvalidPhoneNumberError 수신/발신번호 형식이 올바르지 않을 경우 발생합니다.
+   */
   constructor(parameter: MessageParameter) {
-    this.to = parameter.to;
-    this.from = parameter.from;
+    this.to = Array.isArray(parameter.to)
+      ? parameter.to.map(to => normalizePhoneNumber(to, parameter.country))
+      : normalizePhoneNumber(parameter.to, parameter.country);
+    if (parameter.from != undefined) {
+      this.from = normalizePhoneNumber(parameter.from);
+    }
     this.text = parameter.text;
     this.imageId = parameter.imageId;
     this.type = parameter.type;
     this.subject = parameter.subject;
     this.autoTypeDetect = parameter.autoTypeDetect;
-    this.country = parameter.country;
+    if (parameter.country != undefined) {
+      this.country = normalizeCountryCode(parameter.country);
+    }
     if (parameter.kakaoOptions != undefined) {
       this.kakaoOptions = new KakaoOption(parameter.kakaoOptions);
     }
+    if (parameter.rcsOptions != undefined) {
+      this.rcsOptions = new RcsOption(parameter.rcsOptions);
+    }
+    if (parameter.naverOptions != undefined) {
+      this.naverOptions = new NaverOption(parameter.naverOptions);
+    }
+    if (parameter.voiceOptions != undefined) {
+      this.voiceOptions = new VoiceOption(parameter.voiceOptions);
+    }
+    if (parameter.faxOptions != undefined) {
+      this.faxOptions = new FaxOption(parameter.faxOptions);
+    }
     this.customFields = parameter.customFields;
   }
+
+  /**
+   * 단문 문자(SMS) 메시지 빌더 생성
+   * @param parameter 수신번호, 메시지 내용 등 SMS 파라미터
+   */
+  static sms(
+    parameter: MessageBuilderParameter<SmsMessageParameter>,
+  ): MessageBuilder<SmsMessageParameter> {
+    return new MessageBuilder<SmsMessageParameter>({...parameter, type: 'SMS'});
+  }
+
+  /**
+   * 장문 문자(LMS) 메시지 빌더 생성
+   * @param parameter 수신번호, 메시지 내용 등 LMS 파라미터
+   */
+  static lms(
+    parameter: MessageBuilderParameter<LmsMessageParameter>,
+  ): MessageBuilder<LmsMessageParameter> {
+    return new MessageBuilder<LmsMessageParameter>({...parameter, type: 'LMS'});
+  }
+
+  /**
+   * 사진 문자(MMS) 메시지 빌더 생성
+   * @param parameter 수신번호, 이미지 ID 등 MMS 파라미터
+   */
+  static mms(
+    parameter: MessageBuilderParameter<MmsMessageParameter>,
+  ): MessageBuilder<MmsMessageParameter> {
+    return new MessageBuilder<MmsMessageParameter>({...parameter, type: 'MMS'});
+  }
+
+  /**
+   * 카카오 알림톡(ATA) 메시지 빌더 생성
+   * @param parameter 수신번호, 알림톡 템플릿 정보 등 알림톡 파라미터
+   */
+  static alimtalk(
+    parameter: MessageBuilderParameter<AlimtalkMessageParameter>,
+  ): MessageBuilder<AlimtalkMessageParameter> {
+    return new MessageBuilder<AlimtalkMessageParameter>({
+      ...parameter,
+      type: 'ATA',
+    });
+  }
+
+  /**
+   * 카카오 친구톡 메시지 빌더 생성, kakaoOptions에 imageId가 있을 경우 사진 한장이 포함된 친구톡(CTI)으로 설정됩니다.
+   * @param parameter 수신번호, 메시지 내용, 카카오 채널 정보 등 친구톡 파라미터
+   */
+  static friendtalk(
+    parameter: MessageBuilderParameter<FriendtalkMessageParameter>,
+  ): MessageBuilder<FriendtalkMessageParameter> {
+    const type = parameter.kakaoOptions.imageId ? 'CTI' : 'CTA';
+    return new MessageBuilder<FriendtalkMessageParameter>({
+      ...parameter,
+      type,
+    } as FriendtalkMessageParameter);
+  }
+
+  /**
+   * 네이버 스마트알림(NSA) 메시지 빌더 생성
+   * @param parameter 수신번호, 네이버 톡톡 파트너 ID, 템플릿 정보 등 스마트알림 파라미터
+   */
+  static naver(
+    parameter: MessageBuilderParameter<NaverMessageParameter>,
+  ): MessageBuilder<NaverMessageParameter> {
+    return new MessageBuilder<NaverMessageParameter>({
+      ...parameter,
+      type: 'NSA',
+    });
+  }
+
+  /**
+   * 음성 메시지(VOICE) 빌더 생성
+   * @param parameter 수신번호, 메시지 내용, 목소리 유형 등 음성 메시지 파라미터
+   */
+  static voice(
+    parameter: MessageBuilderParameter<VoiceMessageParameter>,
+  ): MessageBuilder<VoiceMessageParameter> {
+    return new MessageBuilder<VoiceMessageParameter>({
+      ...parameter,
+      type: 'VOICE',
+    });
+  }
+
+  /**
+   * 팩스(FAX) 빌더 생성
+   * @param parameter 수신 팩스번호, 문서 파일 ID 등 팩스 파라미터
+   */
+  static fax(
+    parameter: MessageBuilderParameter<FaxMessageParameter>,
+  ): MessageBuilder<FaxMessageParameter> {
+    return new MessageBuilder<FaxMessageParameter>({...parameter, type: 'FAX'});
+  }
+
+  /**
+   * RCS 메시지 빌더 생성
+   * @param parameter 수신번호, RCS 메시지 유형(RCS_SMS, RCS_LMS, RCS_MMS, RCS_TPL) 등 RCS 파라미터
+   */
+  static rcs(
+    parameter: RcsMessageParameter,
+  ): MessageBuilder<RcsMessageParameter> {
+    return new MessageBuilder<RcsMessageParameter>(parameter);
+  }
 }
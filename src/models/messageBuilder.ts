@@ -0,0 +1,270 @@
+import {Message, MessageParameter} from './message';
+import {kakaoOptionRequest} from './kakao/kakaoOption';
+import {rcsOptionRequest} from './rcs/rcsOption';
+import {naverOptionRequest} from './naver/naverOption';
+import {voiceOptionRequest} from './voice/voiceOption';
+import {faxOptionRequest} from './fax/faxOption';
+import {BadRequestError} from '../errors/defaultError';
+
+/**
+ * @description 모든 메시지 유형에서 공통으로 사용하는 파라미터
+ */
+type CommonMessageParameter = Pick<
+  MessageParameter,
+  'to' | 'from' | 'country' | 'customFields'
+>;
+
+/**
+ * @description 단문 문자(SMS) 파라미터
+ */
+export type SmsMessageParameter = CommonMessageParameter & {
+  type: 'SMS';
+  text: string;
+};
+
+/**
+ * @description 장문 문자(LMS) 파라미터
+ */
+export type LmsMessageParameter = CommonMessageParameter & {
+  type: 'LMS';
+  text: string;
+  subject?: string;
+};
+
+/**
+ * @description 사진 문자(MMS) 파라미터, imageId는 uploadFile 메소드로 업로드한 파일 ID입니다.
+ */
+export type MmsMessageParameter = CommonMessageParameter & {
+  type: 'MMS';
+  imageId: string;
+  text?: string;
+  subject?: string;
+};
+
+/**
+ * @description 카카오 알림톡(ATA) 파라미터, kakaoOptions에 템플릿 ID가 반드시 입력되어야 합니다.
+ */
+export type AlimtalkMessageParameter = CommonMessageParameter & {
+  type: 'ATA';
+  kakaoOptions: kakaoOptionRequest & {templateId: string};
+  text?: string;
+};
+
+/**
+ * @description 카카오 친구톡(CTA, CTI) 파라미터, 사진 한장이 포함된 친구톡(CTI)은 kakaoOptions에 imageId가 반드시 입력되어야 합니다.
+ */
+export type FriendtalkMessageParameter = CommonMessageParameter &
+  (
+    | {type: 'CTA'; text: string; kakaoOptions: kakaoOptionRequest}
+    | {
+        type: 'CTI';
+        text: string;
+        kakaoOptions: kakaoOptionRequest & {imageId: string};
+      }
+  );
+
+/**
+ * @description RCS(RCS_SMS, RCS_LMS, RCS_MMS, RCS_TPL) 파라미터, rcsOptions에 브랜드 ID가 반드시 입력되어야 하며 RCS 템플릿(RCS_TPL)은 템플릿 ID도 입력되어야 합니다.
+ */
+export type RcsMessageParameter = CommonMessageParameter & {
+  text?: string;
+  subject?: string;
+  imageId?: string;
+} & (
+    | {type: 'RCS_SMS' | 'RCS_LMS' | 'RCS_MMS'; rcsOptions: rcsOptionRequest}
+    | {type: 'RCS_TPL'; rcsOptions: rcsOptionRequest & {templateId: string}}
+  );
+
+/**
+ * @description 네이버 스마트알림(NSA) 파라미터, naverOptions에 톡톡 파트너 ID와 템플릿 ID가 반드시 입력되어야 합니다.
+ */
+export type NaverMessageParameter = CommonMessageParameter & {
+  type: 'NSA';
+  naverOptions: naverOptionRequest;
+  text?: string;
+};
+
+/**
+ * @description 음성 메시지(VOICE) 파라미터, text는 음성으로 변환되어 재생되며 voiceOptions에 목소리 유형이 반드시 입력되어야 합니다.
+ */
+export type VoiceMessageParameter = CommonMessageParameter & {
+  type: 'VOICE';
+  text: string;
+  voiceOptions: voiceOptionRequest;
+};
+
+/**
+ * @description 팩스(FAX) 파라미터, faxOptions에 문서 파일 ID가 1개 이상 입력되어야 합니다.
+ */
+export type FaxMessageParameter = CommonMessageParameter & {
+  type: 'FAX';
+  faxOptions: faxOptionRequest;
+};
+
+/**
+ * @name TypedMessageParameter
+ * @description 메시지 유형(type) 별로 필수 값이 구분된 메시지 파라미터
+ */
+export type TypedMessageParameter =
+  | SmsMessageParameter
+  | LmsMessageParameter
+  | MmsMessageParameter
+  | AlimtalkMessageParameter
+  | FriendtalkMessageParameter
+  | RcsMessageParameter
+  | NaverMessageParameter
+  | VoiceMessageParameter
+  | FaxMessageParameter;
+
+/**
+ * @description 메시지 빌더 생성 시 입력해야 하는 파라미터, type 값은 빌더 종류에 따라 자동으로 설정됩니다.
+ */
+export type MessageBuilderParameter<T extends TypedMessageParameter> =
+  T extends unknown ? Omit<T, 'type'> : never;
+
+/**
+ * 메시지 유형 별 필수 값이 모두 입력되었는지 확인하는 함수
+ * TypeScript를 사용하지 않는 환경에서도 필수 값 누락을 발송 전에 확인할 수 있습니다.
+ * @param parameter 메시지 유형 별 파라미터
+ * @throws BadRequestError 필수 값이 입력되지 않았을 경우 발생합니다.
+ */
+export function assertTypedMessageParameter(parameter: TypedMessageParameter) {
+  const missingFields: Array<string> = [];
+  const {to} = parameter;
+  if (!to || (Array.isArray(to) && to.length === 0)) {
+    missingFields.push('to');
+  }
+  switch (parameter.type) {
+    case 'SMS':
+    case 'LMS':
+      if (!parameter.text) {
+        missingFields.push('text');
+      }
+      break;
+    case 'MMS':
+      if (!parameter.imageId) {
+        missingFields.push('imageId');
+      }
+      break;
+    case 'ATA':
+      if (!parameter.kakaoOptions?.pfId) {
+        missingFields.push('kakaoOptions.pfId');
+      }
+      if (!parameter.kakaoOptions?.templateId) {
+        missingFields.push('kakaoOptions.templateId');
+      }
+      break;
+    case 'CTA':
+    case 'CTI':
+      if (!parameter.text) {
+        missingFields.push('text');
+      }
+      if (!parameter.kakaoOptions?.pfId) {
+        missingFields.push('kakaoOptions.pfId');
+      }
+      if (parameter.type === 'CTI' && !parameter.kakaoOptions?.imageId) {
+        missingFields.push('kakaoOptions.imageId');
+      }
+      break;
+    case 'RCS_SMS':
+    case 'RCS_LMS':
+    case 'RCS_MMS':
+    case 'RCS_TPL':
+      if (!parameter.rcsOptions?.brandId) {
+        missingFields.push('rcsOptions.brandId');
+      }
+      if (parameter.type === 'RCS_TPL' && !parameter.rcsOptions?.templateId) {
+        missingFields.push('rcsOptions.templateId');
+      }
+      break;
+    case 'NSA':
+      if (!parameter.naverOptions?.talkId) {
+        missingFields.push('naverOptions.talkId');
+      }
+      if (!parameter.naverOptions?.templateId) {
+        missingFields.push('naverOptions.templateId');
+      }
+      break;
+    case 'VOICE':
+      if (!parameter.text) {
+        missingFields.push('text');
+      }
+      if (!parameter.voiceOptions?.voiceType) {
+        missingFields.push('voiceOptions.voiceType');
+      }
+      break;
+    case 'FAX':
+      if (!parameter.faxOptions?.fileIds?.length) {
+        missingFields.push('faxOptions.fileIds');
+      }
+      break;
+  }
+  if (missingFields.length > 0) {
+    throw new BadRequestError(
+      `${
+        parameter.type
+      } 메시지에 필요한 값이 입력되지 않았습니다: ${missingFields.join(', ')}`,
+    );
+  }
+}
+
+/**
+ * 메시지 유형 별 필수 값을 확인하며 Message 객체를 만드는 빌더
+ * Message.sms(), Message.alimtalk() 등의 함수로 생성할 수 있습니다.
+ */
+export class MessageBuilder<T extends TypedMessageParameter> {
+  private readonly parameter: T;
+
+  constructor(parameter: T) {
+    this.parameter = {...parameter};
+  }
+
+  /**
+   * 발신번호 설정
+   * @param from 발신번호
+   */
+  from(from: string): this {
+    this.parameter.from = from;
+    return this;
+  }
+
+  /**
+   * 해외 문자 발송을 위한 국가번호 설정
+   * @param country 국가번호(예) "82", "1" 등)
+   */
+  country(country: string): this {
+    this.parameter.country = country;
+    return this;
+  }
+
+  /**
+   * 사용자 커스텀 값 설정
+   * @param customFields 키, 값 모두 문자열 형태인 오브젝트
+   */
+  customFields(customFields: Record<string, string>): this {
+    this.parameter.customFields = customFields;
+    return this;
+  }
+
+  /**
+   * 문자 제목 설정(LMS, MMS, RCS 전용)
+   * @param subject 문자 제목
+   */
+  subject<
+    B extends MessageBuilder<
+      LmsMessageParameter | MmsMessageParameter | RcsMessageParameter
+    >,
+  >(this: B, subject: string): B {
+    this.parameter.subject = subject;
+    return this;
+  }
+
+  /**
+   * 필수 값을 확인한 뒤 Message 객체를 생성합니다. 메시지 유형은 자동 감지되지 않고 설정된 유형으로 고정됩니다.
+   * @throws BadRequestError 필수 값이 입력되지 않았을 경우 발생합니다.
+   */
+  build(): Message {
+    assertTypedMessageParameter(this.parameter);
+    return new Message({...this.parameter, autoTypeDetect: false});
+  }
+}
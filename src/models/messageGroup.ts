@@ -0,0 +1,282 @@
+import {Message, MessageParameter} from './message';
+import {
+  AddMessageResponse,
+  GroupMessageResponse,
+  RemoveGroupMessagesResponse,
+} from '../responses/messageResponses';
+import {GetGroupMessagesRequest} from '../requests/messageRequest';
+import {RequestOptions, SendRequestOptions} from '../requests/requestOptions';
+import {Count, GroupId, GroupStatus} from '../types/commonTypes';
+import {PaginationOptions} from '../lib/paginator';
+import {GroupUploadOptions} from '../lib/groupUploader';
+import {GroupUploadReport} from '../responses/groupUploadResponse';
+import {InvalidGroupStateError} from '../errors/defaultError';
+import {AdvertisingOptions, applyAdvertisingMode} from '../lib/advertising';
+
+/**
+ * @description MessageGroup에서 사용하는 그룹 API 호출 함수
+ */
+export type MessageGroupClient = {
+  addMessagesToGroup(
+    groupId: GroupId,
+    messages: Required<Array<Message>>,
+    options?: RequestOptions,
+  ): Promise<AddMessageResponse>;
+  uploadMessagesToGroup(
+    groupId: GroupId,
+    messages: Array<MessageParameter>,
+    uploadOptions?: GroupUploadOptions,
+    options?: RequestOptions,
+  ): Promise<GroupUploadReport>;
+  removeGroupMessages(
+    groupId: GroupId,
+    messageIds: Required<Array<string>>,
+    options?: RequestOptions,
+  ): Promise<RemoveGroupMessagesResponse>;
+  reserveGroup(
+    groupId: GroupId,
+    scheduledDate: Date,
+    options?: SendRequestOptions,
+  ): Promise<GroupMessageResponse>;
+  removeReservationToGroup(
+    groupId: GroupId,
+    options?: RequestOptions,
+  ): Promise<GroupMessageResponse>;
+  sendGroup(
+    groupId: GroupId,
+    options?: SendRequestOptions,
+  ): Promise<GroupMessageResponse>;
+  getGroup(
+    groupId: GroupId,
+    options?: RequestOptions,
+  ): Promise<GroupMessageResponse>;
+  removeGroup(
+    groupId: GroupId,
+    options?: RequestOptions,
+  ): Promise<GroupMessageResponse>;
+  iterateGroupMessages(
+    groupId: GroupId,
+    data?: GetGroupMessagesRequest,
+    paginationOptions?: PaginationOptions,
+    options?: RequestOptions,
+  ): AsyncGenerator<Message, void, undefined>;
+};
+
+type GroupOperation =
+  | 'add'
+  | 'upload'
+  | 'remove'
+  | 'schedule'
+  | 'unschedule'
+  | 'send'
+  | 'delete'
+  | 'iterateMessages';
+
+/**
+ * 작업 별로 요청할 수 있는 그룹 상태 목록
+ */
+const allowedStatuses: Record<GroupOperation, Array<GroupStatus>> = {
+  add: ['PENDING'],
+  upload: ['PENDING'],
+  remove: ['PENDING'],
+  schedule: ['PENDING', 'SCHEDULED'],
+  unschedule: ['SCHEDULED'],
+  send: ['PENDING'],
+  delete: ['PENDING', 'SCHEDULED', 'FAILED'],
+  iterateMessages: ['PENDING', 'SCHEDULED', 'SENDING', 'COMPLETE', 'FAILED'],
+};
+
+/**
+ * 그룹 ID와 상태를 함께 관리하는 그룹 메시지 발송용 객체
+ * SolapiMessageService의 createMessageGroup, getMessageGroup 메소드로 생성할 수 있으며,
+ * 현재 상태에서 할 수 없는 작업은 API를 요청하지 않고 InvalidGroupStateError 에러를 발생시킵니다.
+ */
+export class MessageGroup {
+  private groupInfo: GroupMessageResponse;
+
+  constructor(
+    private readonly client: MessageGroupClient,
+    groupInfo: GroupMessageResponse,
+    private readonly advertisingOptions?: AdvertisingOptions,
+  ) {
+    this.groupInfo = groupInfo;
+  }
+
+  /**
+   * 그룹 ID
+   */
+  get groupId(): GroupId {
+    return this.groupInfo.groupId;
+  }
+
+  /**
+   * 마지막으로 조회 또는 변경한 시점의 그룹 상태
+   */
+  get status(): GroupStatus {
+    return this.groupInfo.status;
+  }
+
+  /**
+   * 마지막으로 조회 또는 변경한 시점의 그룹 내 메시지 건수
+   * add, upload, remove 메소드로 메시지를 변경해도 갱신되지 않으므로, 변경된 건수는 refresh 메소드로 다시 조회해야 합니다.
+   */
+  get count(): Count {
+    return this.groupInfo.count;
+  }
+
+  /**
+   * 마지막으로 조회 또는 변경한 시점의 그룹 정보
+   * add, upload, remove 메소드로 메시지를 변경해도 갱신되지 않으므로, 최신 정보는 refresh 메소드로 다시 조회해야 합니다.
+   */
+  get info(): Readonly<GroupMessageResponse> {
+    return this.groupInfo;
+  }
+
+  private assertStatus(operation: GroupOperation) {
+    if (!allowedStatuses[operation].includes(this.status)) {
+      throw new InvalidGroupStateError(this.groupId, this.status, operation);
+    }
+  }
+
+  /**
+   * 그룹에 메시지 추가
+   * 한번 요청으로 최대 10,000건의 메시지를 추가할 수 있습니다.
+   * advertising 값이 true인 문자는 "(광고)" 표기, 전송자 명칭, 080 무료수신거부 번호를 추가한 뒤 그룹에 추가합니다.
+   * @param messages 여러 메시지(문자, 알림톡 등)
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
+   * @throws InvalidGroupStateError 메시지를 추가할 수 없는 상태일 경우 발생합니다.
+   * @throws BadRequestError 광고성 문자 추가 시 080 수신거부 번호가 설정되지 않았을 경우 발생합니다.
+   */
+  async add(
+    messages: MessageParameter | Array<MessageParameter>,
+    options?: RequestOptions,
+  ): Promise<AddMessageResponse> {
+    this.assertStatus('add');
+    const messageList = applyAdvertisingMode(
+      Array.isArray(messages) ? messages : [messages],
+      this.advertisingOptions,
+    );
+    return this.client.addMessagesToGroup(
+      this.groupId,
+      messageList.map(message => new Message(message)),
+      options,
+    );
+  }
+
+  /**
+   * 대량의 메시지를 여러 묶음(chunk)으로 나누어 그룹에 추가
+   * @param messages 추가할 메시지 목록
+   * @param uploadOptions 묶음 크기, 동시 요청 수, 재시도 횟수 등 분할 추가 설정
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
+   * @throws InvalidGroupStateError 메시지를 추가할 수 없는 상태일 경우 발생합니다.
+   */
+  async upload(
+    messages: Array<MessageParameter>,
+    uploadOptions?: GroupUploadOptions,
+    options?: RequestOptions,
+  ): Promise<GroupUploadReport> {
+    this.assertStatus('upload');
+    return this.client.uploadMessagesToGroup(
+      this.groupId,
+      messages,
+      uploadOptions,
+      options,
+    );
+  }
+
+  /**
+   * 그룹 내 특정 메시지 삭제
+   * @param messageIds 삭제할 메시지 ID 목록
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
+   * @throws InvalidGroupStateError 메시지를 삭제할 수 없는 상태일 경우 발생합니다.
+   */
+  async remove(
+    messageIds: Required<Array<string>>,
+    options?: RequestOptions,
+  ): Promise<RemoveGroupMessagesResponse> {
+    this.assertStatus('remove');
+    return this.client.removeGroupMessages(this.groupId, messageIds, options);
+  }
+
+  /**
+   * 그룹 예약 발송 설정
+   * @param scheduledDate 예약발송 할 날짜
+   * @param options 요청 취소(AbortSignal), 타임아웃, 야간 광고성 메시지 발송 제한 예외(allowNightAds) 등 요청 단위 옵션
+   * @throws InvalidGroupStateError 예약 발송을 설정할 수 없는 상태일 경우 발생합니다.
+   * @throws NightAdvertisingError nightAdGuard 값이 reject이고 야간 시간으로 광고성 메시지를 예약할 경우 발생합니다.
+   */
+  async schedule(scheduledDate: Date, options?: SendRequestOptions) {
+    this.assertStatus('schedule');
+    this.groupInfo = await this.client.reserveGroup(
+      this.groupId,
+      scheduledDate,
+      options,
+    );
+    return this.groupInfo;
+  }
+
+  /**
+   * 그룹 예약 발송 취소(메시지 실패 전체 처리 됨)
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
+   * @throws InvalidGroupStateError 예약 발송 상태가 아닐 경우 발생합니다.
+   */
+  async unschedule(options?: RequestOptions) {
+    this.assertStatus('unschedule');
+    this.groupInfo = await this.client.removeReservationToGroup(
+      this.groupId,
+      options,
+    );
+    return this.groupInfo;
+  }
+
+  /**
+   * 그룹 메시지 발송
+   * @param options 요청 취소(AbortSignal), 타임아웃, 야간 광고성 메시지 발송 제한 예외(allowNightAds) 등 요청 단위 옵션
+   * @throws InvalidGroupStateError 이미 발송했거나 예약된 그룹일 경우 발생합니다.
+   * @throws NightAdvertisingError nightAdGuard 값이 reject이고 야간 시간에 광고성 메시지를 발송할 경우 발생합니다.
+   */
+  async send(options?: SendRequestOptions) {
+    this.assertStatus('send');
+    this.groupInfo = await this.client.sendGroup(this.groupId, options);
+    return this.groupInfo;
+  }
+
+  /**
+   * 그룹 정보를 다시 조회하여 상태, 메시지 건수 등을 갱신
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
+   */
+  async refresh(options?: RequestOptions) {
+    this.groupInfo = await this.client.getGroup(this.groupId, options);
+    return this.groupInfo;
+  }
+
+  /**
+   * 그룹 삭제
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
+   * @throws InvalidGroupStateError 발송 중이거나 발송 완료된 그룹일 경우 발생합니다.
+   */
+  async delete(options?: RequestOptions) {
+    this.assertStatus('delete');
+    this.groupInfo = await this.client.removeGroup(this.groupId, options);
+    return this.groupInfo;
+  }
+
+  /**
+   * 그룹 내 메시지 목록을 nextKey를 따라가며 하나씩 조회하는 비동기 반복자
+   * @param paginationOptions 페이지 크기, 최대 항목 수 등 반복자 설정
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
+   * @throws InvalidGroupStateError 삭제된 그룹일 경우 발생합니다.
+   */
+  iterateMessages(
+    paginationOptions?: PaginationOptions,
+    options?: RequestOptions,
+  ): AsyncGenerator<Message, void, undefined> {
+    this.assertStatus('iterateMessages');
+    return this.client.iterateGroupMessages(
+      this.groupId,
+      undefined,
+      paginationOptions,
+      options,
+    );
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * @name "네이버 스마트알림 버튼타입"
+ * WL: 웹링크, AL: 앱링크
+ */
+export type NaverButtonType = 'WL' | 'AL';
+
+export type NaverWebButton = {
+  buttonName: string;
+  buttonType: Extract<NaverButtonType, 'WL'>;
+  linkMo: string;
+  linkPc?: string;
+  linkAnd?: never;
+  linkIos?: never;
+};
+
+export type NaverAppButton = {
+  buttonName: string;
+  buttonType: Extract<NaverButtonType, 'AL'>;
+  linkMo?: string;
+  linkPc?: never;
+  linkAnd: string;
+  linkIos: string;
+};
+
+export type NaverButton = NaverWebButton | NaverAppButton;
@@ -0,0 +1,47 @@
+import {NaverButton} from './naverButton';
+
+export type naverOptionRequest = {
+  talkId: string;
+  templateId: string;
+  variables?: Record<string, string>;
+  disableSms?: boolean;
+  buttons?: Array<NaverButton>;
+};
+
+/**
+ * 네이버 스마트알림(톡톡) 발송을 위한 옵션 모델
+ */
+export class NaverOption {
+  /**
+   * 네이버 톡톡 파트너 ID
+   */
+  talkId: string;
+
+  /**
+   * 네이버 스마트알림 템플릿 ID
+   */
+  templateId: string;
+
+  /**
+   * 네이버 스마트알림 템플릿 변수, 키는 "#{변수명}" 형식으로 입력합니다.
+   */
+  variables?: Record<string, string>;
+
+  /**
+   * 스마트알림 발송 실패 시 문자 대체발송 비활성화 여부
+   */
+  disableSms?: boolean;
+
+  /**
+   * 네이버 스마트알림 버튼 목록
+   */
+  buttons?: Array<NaverButton>;
+
+  constructor(parameter: naverOptionRequest) {
+    this.talkId = parameter.talkId;
+    this.templateId = parameter.templateId;
+    this.variables = parameter.variables;
+    this.disableSms = parameter.disableSms;
+    this.buttons = parameter.buttons;
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * @name "RCS 버튼타입"
+ * WL: 웹링크, ML: 지도(좌표) 보기, MQ: 지도(검색어) 보기, MR: 현재 위치 공유, CA: 일정 등록, CL: 복사하기, DL: 전화 걸기
+ */
+export type RcsButtonType = 'WL' | 'ML' | 'MQ' | 'MR' | 'CA' | 'CL' | 'DL';
+
+export type RcsWebButton = {
+  buttonName: string;
+  buttonType: Extract<RcsButtonType, 'WL'>;
+  link: string;
+};
+
+export type RcsMapLocationButton = {
+  buttonName: string;
+  buttonType: Extract<RcsButtonType, 'ML'>;
+  latitude: string;
+  longitude: string;
+  label?: string;
+  fallbackUrl?: string;
+};
+
+export type RcsMapQueryButton = {
+  buttonName: string;
+  buttonType: Extract<RcsButtonType, 'MQ'>;
+  query: string;
+  fallbackUrl?: string;
+};
+
+export type RcsCalendarButton = {
+  buttonName: string;
+  buttonType: Extract<RcsButtonType, 'CA'>;
+  title: string;
+  startTime: string;
+  endTime: string;
+  description?: string;
+};
+
+export type RcsCopyButton = {
+  buttonName: string;
+  buttonType: Extract<RcsButtonType, 'CL'>;
+  text: string;
+};
+
+export type RcsDialButton = {
+  buttonName: string;
+  buttonType: Extract<RcsButtonType, 'DL'>;
+  phone: string;
+};
+
+export type RcsDefaultButton = {
+  buttonName: string;
+  buttonType: Extract<RcsButtonType, 'MR'>;
+};
+
+export type RcsButton =
+  | RcsWebButton
+  | RcsMapLocationButton
+  | RcsMapQueryButton
+  | RcsCalendarButton
+  | RcsCopyButton
+  | RcsDialButton
+  | RcsDefaultButton;
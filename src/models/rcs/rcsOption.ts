@@ -0,0 +1,95 @@
+import {RcsButton} from './rcsButton';
+
+/**
+ * @description RCS 사진 문자(MMS) 카드 레이아웃<br>
+ * 앞자리는 이미지 크기(M: 중간, S: 작게), 뒷자리는 슬라이드 카드 수(3~6장)입니다.
+ */
+export type RcsMmsType = 'M3' | 'S3' | 'M4' | 'S4' | 'M5' | 'S5' | 'M6' | 'S6';
+
+/**
+ * @description RCS 슬라이드형 사진 문자의 추가 카드 정보
+ * @property title 카드 제목
+ * @property description 카드 내용
+ * @property imageId 카드 이미지 ID, uploadFile 메소드로 RCS 타입 파일을 업로드하여 얻은 파일 ID를 입력합니다.
+ * @property buttons 카드 버튼 목록
+ */
+export type RcsAdditionalBody = {
+  title?: string;
+  description?: string;
+  imageId?: string;
+  buttons?: Array<RcsButton>;
+};
+
+export type rcsOptionRequest = {
+  brandId: string;
+  templateId?: string;
+  variables?: Record<string, string>;
+  disableSms?: boolean;
+  copyAllowed?: boolean;
+  commercialType?: boolean;
+  mmsType?: RcsMmsType;
+  additionalBody?: Array<RcsAdditionalBody>;
+  buttons?: Array<RcsButton>;
+};
+
+/**
+ * RCS 메시지 발송을 위한 옵션 모델
+ */
+export class RcsOption {
+  /**
+   * RCS 브랜드 ID
+   */
+  brandId: string;
+
+  /**
+   * RCS 템플릿 ID(RCS_TPL 전용)
+   */
+  templateId?: string;
+
+  /**
+   * RCS 템플릿 변수, 키는 "#{변수명}" 형식으로 입력합니다.
+   */
+  variables?: Record<string, string>;
+
+  /**
+   * RCS 발송 실패 시 문자 대체발송 비활성화 여부
+   */
+  disableSms?: boolean;
+
+  /**
+   * 수신자의 메시지 복사/공유 허용 여부
+   */
+  copyAllowed?: boolean;
+
+  /**
+   * 광고성 메시지 여부
+   */
+  commercialType?: boolean;
+
+  /**
+   * 사진 문자(RCS_MMS) 카드 레이아웃
+   */
+  mmsType?: RcsMmsType;
+
+  /**
+   * 슬라이드형 사진 문자의 추가 카드 목록
+   */
+  additionalBody?: Array<RcsAdditionalBody>;
+
+  /**
+   * RCS 버튼 목록
+   */
+  buttons?: Array<RcsButton>;
+
+  constructor(parameter: rcsOptionRequest) {
+    this.brandId = parameter.brandId;
+    this.templateId = parameter.templateId;
+    this.variables = parameter.variables;
+    this.disableSms = parameter.disableSms;
+    this.copyAllowed = parameter.copyAllowed;
+    this.commercialType = parameter.commercialType;
+    this.mmsType = parameter.mmsType;
+    this.additionalBody = parameter.additionalBody;
+    this.buttons = parameter.buttons;
+  }
+}
@@ -0,0 +1,67 @@
+import {BadRequestError} from '../../errors/defaultError';
+
+/**
+ * @description 음성 메시지 목소리 유형<br>
+ * FEMALE: 여성, MALE: 남성
+ */
+export type VoiceType = 'FEMALE' | 'MALE';
+
+export type voiceOptionRequest = {
+  voiceType: VoiceType;
+  headerMessage?: string;
+  tailMessage?: string;
+  replyRange?: number;
+  counselorNumber?: string;
+};
+
+/**
+ * 음성 메시지 발송을 위한 옵션 모델
+ */
+export class VoiceOption {
+  /**
+   * 목소리 유형
+   */
+  voiceType: VoiceType;
+
+  /**
+   * 메시지 내용 전에 재생될 머릿말, 최대 135자까지 입력할 수 있습니다.
+   */
+  headerMessage?: string;
+
+  /**
+   * 메시지 내용 후에 재생될 꼬릿말, 최대 135자까지 입력할 수 있습니다.
+   */
+  tailMessage?: string;
+
+  /**
+   * 수신자가 누를 수 있는 다이얼 번호 범위(1~9), 입력한 경우 수신자가 누른 번호를 발송 결과에서 확인할 수 있습니다.
+   * counselorNumber 값과 함께 사용할 수 없습니다.
+   */
+  replyRange?: number;
+
+  /**
+   * 수신자가 0번을 누를 경우 연결될 상담원 전화번호
+   * replyRange 값과 함께 사용할 수 없습니다.
+   */
+  counselorNumber?: string;
+
+  /**
+   * @param parameter 음성 메시지 옵션 파라미터
+   * @throws BadRequestError replyRange, counselorNumber 값을 함께 입력한 경우 발생합니다.
+   */
+  constructor(parameter: voiceOptionRequest) {
+    if (
+      parameter.replyRange !== undefined &&
+      parameter.counselorNumber !== undefined
+    ) {
+      throw new BadRequestError(
+        'replyRange 값과 counselorNumber 값은 함께 사용할 수 없습니다.',
+      );
+    }
+    this.voiceType = parameter.voiceType;
+    this.headerMessage = parameter.headerMessage;
+    this.tailMessage = parameter.tailMessage;
+    this.replyRange = parameter.replyRange;
+    this.counselorNumber = parameter.counselorNumber;
+  }
+}
@@ -1,6 +1,7 @@
 import {Message} from '../models/message';
 import {DateOperatorType} from '../types/commonTypes';
 import {formatWithTransfer} from '../lib/stringDateTrasnfer';
+import {RequestOptions} from './requestOptions';
 
 export type DefaultAgentType = {
   sdkVersion: string;
@@ -109,12 +110,12 @@ export type GetGroupMessagesRequest = {
   limit?: number;
 };
 
-export type RequestConfig = {
+export type RequestConfig = RequestOptions & {
   method: string;
   url: string;
 };
 
-export type FileType = 'KAKAO' | 'MMS' | 'DOCUMENT' | 'RCS';
+export type FileType = 'KAKAO' | 'MMS' | 'DOCUMENT' | 'RCS' | 'FAX';
 
 export type FileUploadRequest = {
   file: string;
@@ -0,0 +1,38 @@
+import {RetryPolicy} from '../lib/retryPolicy';
+
+/**
+ * @name RequestOptions
+ * @description 각 API 호출 시 부가적으로 설정할 수 있는 요청 단위 옵션 목록
+ */
+export interface RequestOptions {
+  /**
+   * 요청을 취소하기 위한 AbortSignal
+   * 요청이 취소될 경우 RequestAbortedError 에러가 발생합니다.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * 요청 제한 시간(ms), 재시도 및 재시도 대기 시간을 모두 포함합니다.
+   * 제한 시간이 지날 경우 RequestTimeoutError 에러가 발생합니다.
+   * 값 미기입시 SolapiMessageService 생성 시 설정한 timeout 값을 사용합니다.
+   */
+  timeout?: number;
+
+  /**
+   * 이 요청에만 적용할 재시도 정책
+   * 기입한 값만 SolapiMessageService 생성 시 설정한 재시도 정책에 덮어씌워지며, false일 경우 재시도하지 않습니다.
+   */
+  retry?: Partial<RetryPolicy> | false;
+}
+
+/**
+ * @name SendRequestOptions
+ * @description 발송, 예약 발송 API 호출 시 부가적으로 설정할 수 있는 요청 단위 옵션 목록
+ */
+export interface SendRequestOptions extends RequestOptions {
+  /**
+   * 야간 광고 수신에 별도로 동의한 수신자에게 발송하는 경우 야간 광고성 메시지 발송 제한(nightAdGuard)을 적용하지 않을 지에 대한 여부
+   * 값 미기입시 SolapiMessageService 생성 시 설정한 nightAdGuard 값에 따라 제한됩니다.
+   */
+  allowNightAds?: boolean;
+}
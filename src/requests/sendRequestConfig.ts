@@ -24,4 +24,47 @@ export interface SendRequestConfig {
    * 값 미기입시 기본값으로 비표시로 설정됩니다.
    */
   showMessageList?: boolean;
+
+  /**
+   * 발송 전 예상 비용을 계산하여 잔액과 포인트의 합을 넘을 경우 발송하지 않을 지에 대한 여부
+   * 예상 비용은 SolapiMessageService 생성 시 설정한 priceTable 값으로 계산됩니다.
+   * 값 미기입시 확인하지 않습니다.
+   */
+  checkBalance?: boolean;
+
+  /**
+   * 발송 전 알림톡 메시지의 템플릿 상태와 변수 값을 확인하여 검증에 실패한 메시지가 있을 경우 발송하지 않을 지에 대한 여부
+   * 값 미기입시 확인하지 않습니다.
+   */
+  validateAlimtalkTemplates?: boolean;
+
+  /**
+   * 야간 광고 수신에 별도로 동의한 수신자에게 발송하는 경우 야간 광고성 메시지 발송 제한(nightAdGuard)을 적용하지 않을 지에 대한 여부
+   * 값 미기입시 SolapiMessageService 생성 시 설정한 nightAdGuard 값에 따라 제한됩니다.
+   */
+  allowNightAds?: boolean;
+
+  /**
+   * 발송 요청하는 모든 문자(SMS, LMS, MMS)를 광고성 문자로 발송할 지에 대한 여부
+   * true일 경우 메시지 내용에 "(광고)" 표기, 전송자 명칭, 080 무료수신거부 번호가 자동으로 추가됩니다.
+   */
+  advertising?: boolean;
+}
+
+/**
+ * @name SendBulkRequestConfig
+ * @description sendBulk 메소드 내 부가적으로 필요한 파라미터 목록
+ */
+export interface SendBulkRequestConfig extends SendRequestConfig {
+  /**
+   * 한 번의 요청으로 발송할 최대 수신번호 수
+   * 값 미기입시 최대값인 10,000건으로 설정됩니다.
+   */
+  chunkSize?: number;
+
+  /**
+   * 동시에 요청할 묶음(chunk) 수
+   * 값 미기입시 2로 설정됩니다.
+   */
+  concurrency?: number;
 }
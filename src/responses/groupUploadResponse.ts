@@ -0,0 +1,74 @@
+import {GroupId} from '../types/commonTypes';
+import {BulkSendChunkError} from './sendBulkResponse';
+
+/**
+ * @description 그룹에 추가 요청한 수신번호 별 결과
+ */
+export type GroupUploadResult = {
+  /**
+   * 추가 요청한 메시지 목록 내 순번(0부터 시작), 수신번호가 여러 개인 메시지는 같은 순번의 결과가 여러 개 생성됩니다.
+   */
+  index: number;
+
+  /**
+   * 수신번호
+   */
+  to: string;
+
+  /**
+   * 그룹에 추가되었는지에 대한 여부
+   */
+  success: boolean;
+
+  /**
+   * 그룹에 추가된 메시지 ID
+   */
+  messageId?: string;
+
+  /**
+   * 메시지 상태 코드
+   */
+  statusCode?: string;
+
+  /**
+   * 메시지 상태 메시지 또는 실패 사유
+   */
+  statusMessage?: string;
+};
+
+/**
+ * @description 재시도 후에도 요청 자체가 실패한 묶음(chunk) 정보
+ */
+export type GroupUploadChunkError = BulkSendChunkError & {
+  /**
+   * 재시도를 포함한 요청 횟수
+   */
+  attempts: number;
+};
+
+/**
+ * @description 그룹 메시지 분할 추가 시 반환되는 응답 데이터, 모든 묶음(chunk)의 추가 결과를 합친 값입니다.
+ */
+export type GroupUploadReport = {
+  groupId: GroupId;
+
+  /**
+   * 그룹에 추가된 메시지 수
+   */
+  successCount: number;
+
+  /**
+   * 그룹에 추가되지 못한 메시지 수
+   */
+  failedCount: number;
+
+  /**
+   * 추가 요청한 메시지 순서대로 정렬된 수신번호 별 결과 목록
+   */
+  results: Array<GroupUploadResult>;
+
+  /**
+   * 재시도 후에도 요청 자체가 실패한 묶음 목록
+   */
+  errors: Array<GroupUploadChunkError>;
+};
@@ -6,6 +6,7 @@ import {
   CountForCharge,
   Group,
   GroupId,
+  GroupStatus,
   Log,
   MessageTypeRecord,
 } from '../types/commonTypes';
@@ -29,7 +30,7 @@ export type GroupMessageResponse = {
   point: CommonCashResponse;
   app: App;
   log: Log;
-  status: string;
+  status: GroupStatus;
   allowDuplicates: boolean;
   isRefunded: boolean;
   accountId: string;
@@ -53,6 +54,7 @@ export type AddMessageResult = {
   statusCode: string;
   statusMessage: string;
   accountId: string;
+  customFields?: Record<string, string>;
 };
 
 export type AddMessageResponse = {
@@ -0,0 +1,53 @@
+import {Count, GroupId} from '../types/commonTypes';
+import {GroupMessageResponse} from './messageResponses';
+import {FailedMessage} from './sendManyDetailResponse';
+
+/**
+ * @description sendBulk 메소드 호출 시 요청에 실패한 묶음(chunk) 정보
+ */
+export type BulkSendChunkError = {
+  /**
+   * 실패한 묶음의 순번(0부터 시작)
+   */
+  chunkIndex: number;
+
+  /**
+   * 실패한 묶음에 포함된 수신번호 수
+   */
+  messageCount: number;
+
+  /**
+   * 묶음 요청 시 발생한 에러
+   */
+  error: unknown;
+};
+
+/**
+ * @description sendBulk 메소드 호출 시 반환되는 응답 데이터, 모든 묶음(chunk)의 발송 결과를 합친 값입니다.
+ */
+export type BulkSendResponse = {
+  /**
+   * 접수된 모든 묶음의 그룹 ID 목록
+   */
+  groupIds: Array<GroupId>;
+
+  /**
+   * 접수된 모든 묶음의 발송 정보를 합친 값
+   */
+  count: Count;
+
+  /**
+   * 모든 묶음에서 발송 접수에 실패한 메시지 목록
+   */
+  failedMessageList: Array<FailedMessage>;
+
+  /**
+   * 접수된 묶음 별 발송 정보(그룹 정보) 목록
+   */
+  groupInfoList: Array<GroupMessageResponse>;
+
+  /**
+   * 요청 자체가 실패한 묶음 목록
+   */
+  errors: Array<BulkSendChunkError>;
+};
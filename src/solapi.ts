@@ -15,7 +15,7 @@ import {
   ScheduledDateSendingRequest,
   SingleMessageSendingRequest,
 } from './requests/messageRequest';
-import defaultFetcher from './lib/defaultFetcher';
+import defaultFetcher, {DefaultFetcherConfig} from './lib/defaultFetcher';
 import {
   AddMessageResponse,
   CreateKakaoChannelResponse,
@@ -31,11 +31,22 @@ import {
 } from './responses/messageResponses';
 import { GetBlacksResponse } from './responses/getBlacksResponse';
 import { GetBlockGroupsResponse } from './responses/getBlockGroupsResponse';
-import {GroupId} from './types/commonTypes';
+import {Black, BlockGroup, Count, Group, GroupId} from './types/commonTypes';
 import {formatISO} from 'date-fns';
 import ImageToBase64 from 'image-to-base64';
+import {promises as fs} from 'fs';
 import stringDateTransfer from './lib/stringDateTrasnfer';
-import {BadRequestError, MessageNotReceivedError} from './errors/defaultError';
+import {
+  BadRequestError,
+  BulkSendError,
+  InsufficientBalanceError,
+  InvalidAlimtalkMessage,
+  InvalidAlimtalkMessagesError,
+  InvalidRecipientsError,
+  MessageNotReceivedError,
+  NightAdvertisingError,
+  NotFoundError,
+} from './errors/defaultError';
 import {
   KakaoChannel,
   KakaoChannelCategory,
@@ -47,8 +58,12 @@ import {
   KakaoAlimtalkTemplateInterface,
 } from './models/kakao/kakaoAlimtalkTemplate';
 import qs from 'qs';
-import {SendRequestConfig} from './requests/sendRequestConfig';
+import {
+  SendBulkRequestConfig,
+  SendRequestConfig,
+} from './requests/sendRequestConfig';
 import {DetailGroupMessageResponse} from './responses/sendManyDetailResponse';
+import {BulkSendResponse} from './responses/sendBulkResponse';
 import {GetKakaoTemplateResponse} from './responses/kakao/getKakaoTemplateResponse';
 import {
   GetKakaoAlimtalkTemplatesFinalizeResponse,
@@ -88,8 +103,176 @@ import {
   GetStatisticsFinalizeRequest,
   GetStatisticsRequest,
 } from './requests/messages/statistics/getStatisticsRequest';
+import {SolapiMessageServiceOptions} from './types/solapiMessageServiceOptions';
+import {resolveRetryPolicy} from './lib/retryPolicy';
+import {RequestOptions, SendRequestOptions} from './requests/requestOptions';
+import {Middleware} from './lib/middleware';
+import {RateLimiter} from './lib/rateLimiter';
+import {
+  CredentialProvider,
+  environmentCredentials,
+  staticCredentials,
+} from './lib/credentialProvider';
+import {ClockSkew} from './lib/clockSkew';
+import chunkMessages from './lib/chunkMessages';
+import mapWithConcurrency from './lib/concurrency';
+import {findInvalidRecipients} from './lib/phoneNumber';
+import {
+  CostEstimateWithBalance,
+  estimateMessageCost,
+  MessagePriceTable,
+} from './lib/costEstimator';
+import {detectMessageType} from './lib/messageTypeDetector';
+import {validateAlimtalkVariables} from './lib/alimtalkTemplateValidator';
+import {
+  getAdvertisingMessageIndexes,
+  getNextAdvertisingTime,
+  isAdvertisingMessage,
+  isNightTime,
+  NightAdGuardMode,
+} from './lib/nightAdGuard';
+import {AdvertisingOptions, applyAdvertisingMode} from './lib/advertising';
+import paginate, {PaginationOptions} from './lib/paginator';
+import {MessageGroup} from './models/messageGroup';
+import uploadMessagesToGroup, {GroupUploadOptions} from './lib/groupUploader';
+import {GroupUploadReport} from './responses/groupUploadResponse';
+import trackDelivery, {
+  DeliveryReport,
+  DeliveryTrackingOptions,
+} from './lib/deliveryTracker';
 
 export * from './errors/defaultError';
+export {Message} from './models/message';
+export type {MessageParameter, MessageType} from './models/message';
+export {
+  assertTypedMessageParameter,
+  MessageBuilder,
+} from './models/messageBuilder';
+export type {
+  AlimtalkMessageParameter,
+  FaxMessageParameter,
+  FriendtalkMessageParameter,
+  LmsMessageParameter,
+  MessageBuilderParameter,
+  MmsMessageParameter,
+  NaverMessageParameter,
+  RcsMessageParameter,
+  SmsMessageParameter,
+  TypedMessageParameter,
+  VoiceMessageParameter,
+} from './models/messageBuilder';
+export {RcsOption} from './models/rcs/rcsOption';
+export type {
+  RcsAdditionalBody,
+  RcsMmsType,
+  rcsOptionRequest,
+} from './models/rcs/rcsOption';
+export type {RcsButton, RcsButtonType} from './models/rcs/rcsButton';
+export {NaverOption} from './models/naver/naverOption';
+export type {naverOptionRequest} from './models/naver/naverOption';
+export type {NaverButton, NaverButtonType} from './models/naver/naverButton';
+export {VoiceOption} from './models/voice/voiceOption';
+export type {VoiceType, voiceOptionRequest} from './models/voice/voiceOption';
+export {FaxOption} from './models/fax/faxOption';
+export type {faxOptionRequest} from './models/fax/faxOption';
+export type {SolapiMessageServiceOptions} from './types/solapiMessageServiceOptions';
+export type {FetchFunction} from './lib/defaultFetcher';
+export type {RetryPolicy} from './lib/retryPolicy';
+export type {
+  RequestOptions,
+  SendRequestOptions,
+} from './requests/requestOptions';
+export type {
+  Middleware,
+  MiddlewareErrorContext,
+  MiddlewareRequestContext,
+  MiddlewareResponseContext,
+} from './lib/middleware';
+export type {
+  RateLimitEndpointFamily,
+  RateLimitOptions,
+  RateLimitRule,
+} from './lib/rateLimiter';
+export {
+  cachedCredentials,
+  environmentCredentials,
+  fileCredentials,
+  staticCredentials,
+} from './lib/credentialProvider';
+export type {
+  CredentialProvider,
+  EnvironmentCredentialsOptions,
+} from './lib/credentialProvider';
+export {AuthenticateType} from './lib/authenticator';
+export type {AuthenticationParameter} from './lib/authenticator';
+export {
+  isValidPhoneNumber,
+  normalizeCountryCode,
+  normalizePhoneNumber,
+} from './lib/phoneNumber';
+export {
+  detectMessageType,
+  getEucKrByteLength,
+  messageByteLimits,
+} from './lib/messageTypeDetector';
+export type {
+  MessageByteLimit,
+  MessageTypeDetectionResult,
+} from './lib/messageTypeDetector';
+export {estimateMessageCost} from './lib/costEstimator';
+export type {
+  CostEstimate,
+  CostEstimateWithBalance,
+  MessagePriceTable,
+  MissingPrice,
+} from './lib/costEstimator';
+export {personalizeMessages} from './lib/personalization';
+export {
+  getAdvertisingMessageIndexes,
+  getNextAdvertisingTime,
+  isAdvertisingMessage,
+  isNightTime,
+} from './lib/nightAdGuard';
+export type {NightAdGuardMode} from './lib/nightAdGuard';
+export {applyAdvertising} from './lib/advertising';
+export type {AdvertisingOptions} from './lib/advertising';
+export type {PaginationOptions} from './lib/paginator';
+export {getDeliveryStatus} from './lib/deliveryTracker';
+export {MessageGroup} from './models/messageGroup';
+export type {GroupStatus} from './types/commonTypes';
+export type {GroupUploadOptions} from './lib/groupUploader';
+export type {
+  GroupUploadChunkError,
+  GroupUploadReport,
+  GroupUploadResult,
+} from './responses/groupUploadResponse';
+export {
+  classifyFailedMessage,
+  classifyMessage,
+  getStatusCodeInfo,
+  statusCodes,
+} from './lib/statusCodes';
+export type {StatusCodeCategory, StatusCodeInfo} from './lib/statusCodes';
+export type {
+  DeliveryProgress,
+  DeliveryReport,
+  DeliveryStatus,
+  DeliveryTrackingOptions,
+  MessageDeliveryOutcome,
+} from './lib/deliveryTracker';
+export {
+  getAlimtalkTemplateVariables,
+  validateAlimtalkVariables,
+} from './lib/alimtalkTemplateValidator';
+export type {
+  PersonalizationRecipient,
+  PersonalizationTemplate,
+} from './lib/personalization';
+
+/**
+ * 한 번의 발송 요청으로 보낼 수 있는 최대 메시지 수
+ */
+const maxMessagesPerRequest = 10000;
 
 /**
  * SOLAPI 메시지 서비스
@@ -98,17 +281,84 @@ export * from './errors/defaultError';
  * @see https://solapi.github.io/solapi-nodejs
  */
 export class SolapiMessageService {
-  private readonly baseUrl = 'https://api.solapi.com';
-  private readonly authInfo: {
-    apiKey: string;
-    apiSecret: string;
-  };
+  private readonly baseUrl: string;
+  private readonly fetcherConfig: DefaultFetcherConfig;
+  private readonly priceTable: MessagePriceTable;
+  private readonly alimtalkTemplateCacheTtl: number;
+  private readonly nightAdGuard?: NightAdGuardMode;
+  private readonly advertisingOptions?: AdvertisingOptions;
+  private readonly alimtalkTemplateCache = new Map<
+    string,
+    {template: Promise<KakaoAlimtalkTemplate>; expiresAt: number}
+  >();
 
-  constructor(apiKey: string, apiSecret: string) {
-    this.authInfo = {
-      apiKey,
-      apiSecret,
+  /**
+   * @param apiKey SOLAPI API Key
+   * @param apiSecret SOLAPI API Secret Key
+   * @param options API 요청 기본 주소, fetch 구현체, 재시도 정책, 요청 제한 시간, 미들웨어, 요청 수 제한 등 부가 옵션
+   */
+  constructor(
+    apiKey: string,
+    apiSecret: string,
+    options?: SolapiMessageServiceOptions,
+  );
+  /**
+   * @param options 인증 정보 제공 함수 등 부가 옵션, credentials 값 미기입시 SOLAPI_API_KEY, SOLAPI_API_SECRET 환경변수를 사용합니다.
+   */
+  constructor(options: SolapiMessageServiceOptions);
+  constructor(
+    apiKeyOrOptions: string | SolapiMessageServiceOptions,
+    apiSecret?: string,
+    serviceOptions?: SolapiMessageServiceOptions,
+  ) {
+    let options: SolapiMessageServiceOptions | undefined;
+    let credentials: CredentialProvider;
+    if (typeof apiKeyOrOptions === 'string') {
+      options = serviceOptions;
+      credentials =
+        options?.credentials ??
+        staticCredentials(apiKeyOrOptions, apiSecret ?? '');
+    } else {
+      options = apiKeyOrOptions;
+      credentials = options.credentials ?? environmentCredentials();
+    }
+    this.baseUrl = (options?.baseUrl ?? 'https://api.solapi.com').replace(
+      /\/+$/,
+      '',
+    );
+    this.fetcherConfig = {
+      credentials,
+      fetch: options?.fetch,
+      retryPolicy: resolveRetryPolicy(options?.retry),
+      timeout: options?.timeout,
+      middlewares: [...(options?.middlewares ?? [])],
+      rateLimiter: options?.rateLimit
+        ? new RateLimiter(options.rateLimit)
+        : undefined,
+      clockSkew: new ClockSkew(),
     };
+    this.priceTable = options?.priceTable ?? {};
+    this.alimtalkTemplateCacheTtl = options?.alimtalkTemplateCacheTtl ?? 300000;
+    this.nightAdGuard = options?.nightAdGuard;
+    this.advertisingOptions = options?.advertising;
+  }
+
+  /**
+   * API 응답의 Date 헤더를 통해 측정된 SOLAPI 서버 시간과 로컬 시간의 차이(ms)
+   * 양수일 경우 로컬 시간이 서버보다 느리며, API 인증 서명 시 이 값만큼 보정된 시간을 사용합니다.
+   */
+  getClockSkew(): number {
+    return this.fetcherConfig.clockSkew?.skew ?? 0;
+  }
+
+  /**
+   * 모든 API 요청 전후에 실행할 미들웨어 추가
+   * 미들웨어는 등록된 순서대로 실행됩니다.
+   * @param middleware 요청 전(beforeRequest), 응답 후(afterResponse), 오류 발생 시(onError) 실행할 함수를 가진 미들웨어
+   */
+  use(middleware: Middleware): this {
+    this.fetcherConfig.middlewares?.push(middleware);
+    return this;
   }
 
   /**
@@ -116,22 +366,184 @@ export class SolapiMessageService {
    * 한번의 요청으로 최대 10,000건까지 발송할 수 있습니다.
    * @param messages 발송 요청할 메시지 파라미터(문자, 알림톡 등)
    * @param requestConfigParameter request시 필요한 파라미터 오브젝트
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
    * @throws MessageNotReceivedError
+   * @throws InvalidRecipientsError 수신/발신번호 형식이 올바르지 않을 경우 요청 전에 발생합니다.
+   * @throws InsufficientBalanceError checkBalance 값이 true이고 예상 비용이 잔액과 포인트의 합보다 클 경우 발생합니다.
+   * @throws InvalidAlimtalkMessagesError validateAlimtalkTemplates 값이 true이고 알림톡 템플릿 검증에 실패한 메시지가 있을 경우 발생합니다.
+   * @throws NightAdvertisingError nightAdGuard 값이 reject이고 야간 시간에 광고성 메시지를 발송하려 할 경우 발생합니다.
+   * @throws BadRequestError 광고성 문자 발송 시 080 수신거부 번호가 설정되지 않았을 경우 발생합니다.
    */
   async send(
     messages: MessageParameter | Array<MessageParameter>,
     requestConfigParameter?: SendRequestConfig,
+    options?: RequestOptions,
   ): Promise<DetailGroupMessageResponse> {
-    const payload: Array<Message> = [];
-    if (Array.isArray(messages)) {
-      messages.forEach(value => {
-        payload.push(new Message(value));
+    const invalidRecipients = findInvalidRecipients(
+      Array.isArray(messages) ? messages : [messages],
+    );
+    if (invalidRecipients.length > 0) {
+      throw new InvalidRecipientsError(invalidRecipients);
+    }
+    const messageList = this.applyAdvertisingMode(
+      Array.isArray(messages) ? messages : [messages],
+      requestConfigParameter,
+    );
+    const sendRequestConfig = this.applyNightAdGuard(
+      messageList,
+      requestConfigParameter,
+    );
+    if (requestConfigParameter?.validateAlimtalkTemplates) {
+      await this.assertValidAlimtalkMessages(messageList, options);
+    }
+    if (requestConfigParameter?.checkBalance) {
+      await this.assertSufficientBalance(messageList, options);
+    }
+    return this.requestSend(messageList, sendRequestConfig, options);
+  }
+
+  /**
+   * 대량 메시지 발송 기능
+   * 한 번에 발송할 수 있는 최대 건수(10,000건)를 넘는 메시지를 여러 묶음(chunk)으로 나누어 발송한 뒤, 결과를 하나로 합쳐서 반환합니다.
+   * 일부 묶음의 요청이 실패하더라도 나머지 묶음은 계속 발송되며, 실패한 묶음은 응답의 errors 항목에 담깁니다.
+   * @param messages 발송 요청할 메시지 목록
+   * @param requestConfigParameter 발송 설정 및 묶음 크기, 동시 요청 수
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
+   * @throws MessageNotReceivedError 모든 메시지가 접수되지 못했을 경우 발생합니다. 요청 자체가 실패한 묶음은 에러의 errors 항목에 담깁니다.
+   * @throws BulkSendError 모든 묶음의 요청 자체가 실패했을 경우 발생합니다.
+   * @throws InvalidRecipientsError 수신/발신번호 형식이 올바르지 않을 경우 요청 전에 발생합니다.
+   * @throws InsufficientBalanceError checkBalance 값이 true이고 예상 비용이 잔액과 포인트의 합보다 클 경우 발생합니다.
+   * @throws InvalidAlimtalkMessagesError validateAlimtalkTemplates 값이 true이고 알림톡 템플릿 검증에 실패한 메시지가 있을 경우 발생합니다.
+   * @throws NightAdvertisingError nightAdGuard 값이 reject이고 야간 시간에 광고성 메시지를 발송하려 할 경우 발생합니다.
+   * @throws BadRequestError 광고성 문자 발송 시 080 수신거부 번호가 설정되지 않았을 경우 발생합니다.
+   */
+  async sendBulk(
+    messages: Array<MessageParameter>,
+    requestConfigParameter?: SendBulkRequestConfig,
+    options?: RequestOptions,
+  ): Promise<BulkSendResponse> {
+    const {
+      chunkSize = maxMessagesPerRequest,
+      concurrency = 2,
+      checkBalance,
+      validateAlimtalkTemplates,
+      ...sendRequestConfig
+    } = requestConfigParameter ?? {};
+    if (messages.length === 0) {
+      throw new BadRequestError(
+        '데이터가 반드시 1건 이상 기입되어 있어야 합니다.',
+      );
+    }
+    if (chunkSize < 1 || chunkSize > maxMessagesPerRequest) {
+      throw new BadRequestError(
+        `chunkSize는 1 이상 ${maxMessagesPerRequest} 이하로 입력해야 합니다.`,
+      );
+    }
+    const invalidRecipients = findInvalidRecipients(messages);
+    if (invalidRecipients.length > 0) {
+      throw new InvalidRecipientsError(invalidRecipients);
+    }
+    const messageList = this.applyAdvertisingMode(messages, sendRequestConfig);
+    const guardedRequestConfig = this.applyNightAdGuard(
+      messageList,
+      sendRequestConfig,
+    );
+    if (validateAlimtalkTemplates) {
+      await this.assertValidAlimtalkMessages(messageList, options);
+    }
+    if (checkBalance) {
+      await this.assertSufficientBalance(messageList, options);
+    }
+    const chunks = chunkMessages(messageList, chunkSize);
+    const results = await mapWithConcurrency(
+      chunks,
+      concurrency,
+      async chunk => {
+        try {
+          return {
+            response: await this.requestSend(
+              chunk,
+              guardedRequestConfig,
+              options,
+            ),
+          };
+        } catch (error) {
+          return {error};
+        }
+      },
+    );
+
+    const bulkResponse: BulkSendResponse = {
+      groupIds: [],
+      count: {
+        total: 0,
+        sentTotal: 0,
+        sentFailed: 0,
+        sentSuccess: 0,
+        sentPending: 0,
+        sentReplacement: 0,
+        refund: 0,
+        registeredFailed: 0,
+        registeredSuccess: 0,
+      },
+      failedMessageList: [],
+      groupInfoList: [],
+      errors: [],
+    };
+    results.forEach((result, chunkIndex) => {
+      if (result.response) {
+        const {groupInfo, failedMessageList} = result.response;
+        bulkResponse.groupIds.push(groupInfo.groupId);
+        bulkResponse.groupInfoList.push(groupInfo);
+        bulkResponse.failedMessageList.push(...failedMessageList);
+        (Object.keys(bulkResponse.count) as Array<keyof Count>).forEach(key => {
+          bulkResponse.count[key] += groupInfo.count[key] ?? 0;
+        });
+        return;
+      }
+      if (result.error instanceof MessageNotReceivedError) {
+        bulkResponse.failedMessageList.push(...result.error.failedMessageList);
+      }
+      bulkResponse.errors.push({
+        chunkIndex,
+        messageCount: chunks[chunkIndex].reduce(
+          (count, message) =>
+            count + (Array.isArray(message.to) ? message.to.length : 1),
+          0,
+        ),
+        error: result.error,
       });
-    } else if (!Array.isArray(messages)) {
-      payload.push(new Message(messages));
-    } else {
-      throw new BadRequestError('잘못된 값이 입력되었습니다.');
+    });
+
+    if (bulkResponse.count.registeredSuccess === 0) {
+      if (bulkResponse.failedMessageList.length > 0) {
+        throw new MessageNotReceivedError(
+          bulkResponse.failedMessageList,
+          bulkResponse.errors,
+        );
+      }
+      if (bulkResponse.groupIds.length === 0) {
+        throw new BulkSendError(bulkResponse.errors);
+      }
     }
+    return bulkResponse;
+  }
+
+  /**
+   * 번호 형식 검증, 광고성 문자 변환, 야간 발송 제한 적용이 끝난 메시지 목록을 한 번의 요청으로 발송하는 함수
+   * @param messageList 발송 요청할 메시지 파라미터 목록
+   * @param sendRequestConfig 발송 요청 설정
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
+   * @throws MessageNotReceivedError 모든 메시지가 접수되지 못했을 경우 발생합니다.
+   */
+  private async requestSend(
+    messageList: Array<MessageParameter>,
+    sendRequestConfig?: SendRequestConfig,
+    options?: RequestOptions,
+  ): Promise<DetailGroupMessageResponse> {
+    const payload: Array<Message> = messageList.map(
+      value => new Message(value),
+    );
     if (payload.length === 0) {
       throw new BadRequestError(
         '데이터가 반드시 1건 이상 기입되어 있어야 합니다.',
@@ -139,19 +551,20 @@ export class SolapiMessageService {
     }
     const parameter = new MultipleDetailMessageSendingRequest(
       payload,
-      requestConfigParameter?.allowDuplicates,
-      requestConfigParameter?.appId,
-      requestConfigParameter?.scheduledDate,
-      requestConfigParameter?.showMessageList,
+      sendRequestConfig?.allowDuplicates,
+      sendRequestConfig?.appId,
+      sendRequestConfig?.scheduledDate,
+      sendRequestConfig?.showMessageList,
     );
     const requestConfig: RequestConfig = {
       method: 'POST',
       url: `${this.baseUrl}/messages/v4/send-many/detail`,
+      ...options,
     };
     return defaultFetcher<
       MultipleDetailMessageSendingRequest,
       DetailGroupMessageResponse
-    >(this.authInfo, requestConfig, parameter).then(
+    >(this.fetcherConfig, requestConfig, parameter).then(
       (res: DetailGroupMessageResponse) => {
         const count = res.groupInfo.count;
         if (
@@ -165,39 +578,182 @@ export class SolapiMessageService {
     );
   }
 
+  /**
+   * 광고성 문자에 "(광고)" 표기, 전송자 명칭, 080 무료수신거부 번호를 추가하는 함수
+   * 요청 설정 또는 메시지의 advertising 값이 true인 문자(SMS, LMS, MMS)에만 적용됩니다.
+   * @param messages 발송 요청할 메시지 파라미터 목록
+   * @param requestConfigParameter 발송 요청 설정
+   * @throws BadRequestError 080 수신거부 번호가 설정되지 않았을 경우 발생합니다.
+   */
+  private applyAdvertisingMode(
+    messages: Array<MessageParameter>,
+    requestConfigParameter?: SendRequestConfig,
+  ): Array<MessageParameter> {
+    return applyAdvertisingMode(
+      messages,
+      this.advertisingOptions,
+      requestConfigParameter?.advertising,
+    );
+  }
+
+  /**
+   * 야간 광고성 메시지 발송 제한 대상인지 확인하는 함수
+   * 제한 대상일 경우 nightAdGuard 설정에 따라 에러를 발생시키거나 광고성 메시지를 발송할 수 있는 가장 가까운 시각을 반환합니다.
+   * @param messageIndexes 발송 요청한 메시지 목록 내 광고성 메시지의 순번 목록
+   * @param scheduledDate 예약일시, 값 미기입시 현재 시각으로 판단합니다.
+   * @param allowNightAds 야간 광고성 메시지 발송 제한을 적용하지 않을 지에 대한 여부
+   * @throws NightAdvertisingError nightAdGuard 값이 reject이고 제한 대상일 경우 발생합니다.
+   */
+  private getNightAdvertisingDate(
+    messageIndexes: Array<number>,
+    scheduledDate?: string | Date,
+    allowNightAds?: boolean,
+  ): Date | undefined {
+    if (!this.nightAdGuard || allowNightAds || messageIndexes.length === 0) {
+      return undefined;
+    }
+    const sendDate = scheduledDate
+      ? stringDateTransfer(scheduledDate)
+      : new Date();
+    if (!isNightTime(sendDate)) {
+      return undefined;
+    }
+    const nextAdvertisingDate = getNextAdvertisingTime(sendDate);
+    if (this.nightAdGuard === 'reject') {
+      throw new NightAdvertisingError(messageIndexes, nextAdvertisingDate);
+    }
+    return nextAdvertisingDate;
+  }
+
+  /**
+   * 이미 생성된 그룹의 메시지를 조회하여 야간 광고성 메시지 발송 제한 대상인지 확인하는 함수
+   * 발송 시각이 야간 시간이고 allowNightAds 값이 true가 아닐 경우에만 그룹 내 메시지 목록을 조회하며,
+   * 광고성 메시지를 찾으면 나머지 메시지는 조회하지 않으므로 에러에는 처음 찾은 광고성 메시지의 순번만 담깁니다.
+   * @param groupId 그룹 ID
+   * @param scheduledDate 예약일시, 값 미기입시 현재 시각으로 판단합니다.
+   * @param allowNightAds 야간 광고성 메시지 발송 제한을 적용하지 않을 지에 대한 여부
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
+   * @throws NightAdvertisingError nightAdGuard 값이 reject이고 제한 대상일 경우 발생합니다.
+   */
+  private async getGroupNightAdvertisingDate(
+    groupId: GroupId,
+    scheduledDate?: Date,
+    allowNightAds?: boolean,
+    options?: RequestOptions,
+  ): Promise<Date | undefined> {
+    if (
+      !this.nightAdGuard ||
+      allowNightAds ||
+      !isNightTime(scheduledDate ?? new Date())
+    ) {
+      return undefined;
+    }
+    let index = 0;
+    for await (const message of this.iterateGroupMessages(
+      groupId,
+      undefined,
+      undefined,
+      options,
+    )) {
+      if (isAdvertisingMessage(message)) {
+        return this.getNightAdvertisingDate([index], scheduledDate);
+      }
+      index++;
+    }
+    return undefined;
+  }
+
+  /**
+   * 야간 광고성 메시지 발송 제한을 적용하는 함수
+   * 제한 대상일 경우 nightAdGuard 설정에 따라 에러를 발생시키거나 예약일시를 발송 가능한 시각으로 변경한 요청 설정을 반환합니다.
+   * @param messages 발송 요청할 메시지 파라미터 목록
+   * @param requestConfigParameter 발송 요청 설정
+   * @throws NightAdvertisingError nightAdGuard 값이 reject이고 제한 대상일 경우 발생합니다.
+   */
+  private applyNightAdGuard<T extends SendRequestConfig>(
+    messages: Array<MessageParameter>,
+    requestConfigParameter?: T,
+  ): T | undefined {
+    const nextAdvertisingDate = this.getNightAdvertisingDate(
+      getAdvertisingMessageIndexes(messages),
+      requestConfigParameter?.scheduledDate,
+      requestConfigParameter?.allowNightAds,
+    );
+    if (!nextAdvertisingDate) {
+      return requestConfigParameter;
+    }
+    return {
+      ...requestConfigParameter,
+      scheduledDate: nextAdvertisingDate,
+    } as T;
+  }
+
   /**
    * 단일 메시지 발송 기능
    * @param message 메시지(문자, 알림톡 등)
    * @param appId appstore용 app id
+   * @param options 요청 취소(AbortSignal), 타임아웃, 야간 광고성 메시지 발송 제한 예외(allowNightAds) 등 요청 단위 옵션
+   * @throws NightAdvertisingError 야간 시간에 광고성 메시지를 발송할 경우 발생합니다.
+   * 단일 메시지 발송은 예약할 수 없으므로 nightAdGuard 값이 reschedule이어도 에러가 발생합니다.
    */
   async sendOne(
     message: Message,
     appId?: string,
+    options?: SendRequestOptions,
   ): Promise<SingleMessageSentResponse> {
+    const {allowNightAds, ...requestOptions} = options ?? {};
+    const nextAdvertisingDate = this.getNightAdvertisingDate(
+      getAdvertisingMessageIndexes([message]),
+      undefined,
+      allowNightAds,
+    );
+    if (nextAdvertisingDate) {
+      throw new NightAdvertisingError([0], nextAdvertisingDate);
+    }
     const parameter = new SingleMessageSendingRequest(message, false, appId);
     const requestConfig: RequestConfig = {
       method: 'POST',
       url: `${this.baseUrl}/messages/v4/send`,
+      ...requestOptions,
     };
     return defaultFetcher<
       SingleMessageSendingRequest,
       SingleMessageSentResponse
-    >(this.authInfo, requestConfig, parameter);
+    >(this.fetcherConfig, requestConfig, parameter);
   }
 
   /**
    * 단일 메시지 예약 발송 기능
    * @param message 메시지(문자, 알림톡 등)
    * @param scheduledDate 예약일시
+   * @param options 요청 취소(AbortSignal), 타임아웃, 야간 광고성 메시지 발송 제한 예외(allowNightAds) 등 요청 단위 옵션
+   * @throws NightAdvertisingError nightAdGuard 값이 reject이고 야간 시간에 광고성 메시지를 예약할 경우 발생합니다.
    */
   async sendOneFuture(
     message: Message,
     scheduledDate: string | Date,
+    options?: SendRequestOptions,
   ): Promise<GroupMessageResponse> {
-    const groupId = await this.createGroup();
-    await this.addMessagesToGroup(groupId, [message]);
+    const {allowNightAds, ...requestOptions} = options ?? {};
     scheduledDate = stringDateTransfer(scheduledDate);
-    return this.reserveGroup(groupId, scheduledDate);
+    // 그룹을 생성하기 전에 확인하여 발송 제한으로 인해 빈 그룹이 남지 않도록 합니다.
+    scheduledDate =
+      this.getNightAdvertisingDate(
+        getAdvertisingMessageIndexes([message]),
+        scheduledDate,
+        allowNightAds,
+      ) ?? scheduledDate;
+    const groupId = await this.createGroup(
+      undefined,
+      undefined,
+      requestOptions,
+    );
+    await this.addMessagesToGroup(groupId, [message], requestOptions);
+    // 추가한 메시지는 이미 확인했으므로 그룹 내 메시지 목록을 다시 조회하지 않습니다.
+    return this.reserveGroup(groupId, scheduledDate, {
+      ...requestOptions,
+      allowNightAds: true,
+    });
   }
 
   /**
@@ -207,12 +763,31 @@ export class SolapiMessageService {
    * @param messages 여러 메시지(문자, 알림톡 등)
    * @param allowDuplicates 중복 수신번호 허용
    * @param appId appstore용 app id
+   * @param options 요청 취소(AbortSignal), 타임아웃, 야간 광고성 메시지 발송 제한 예외(allowNightAds) 등 요청 단위 옵션
+   * @throws NightAdvertisingError nightAdGuard 값이 reject이고 야간 시간에 광고성 메시지를 발송할 경우 발생합니다.
+   * nightAdGuard 값이 reschedule일 경우 발송 가능한 시각으로 예약 발송합니다.
    */
   async sendMany(
     messages: Array<Message>,
     allowDuplicates = false,
     appId?: string,
+    options?: SendRequestOptions,
   ): Promise<GroupMessageResponse> {
+    const {allowNightAds, ...requestOptions} = options ?? {};
+    const nextAdvertisingDate = this.getNightAdvertisingDate(
+      getAdvertisingMessageIndexes(messages),
+      undefined,
+      allowNightAds,
+    );
+    if (nextAdvertisingDate) {
+      return this.sendManyFuture(
+        messages,
+        nextAdvertisingDate,
+        allowDuplicates,
+        appId,
+        requestOptions,
+      );
+    }
     const parameter = new MultipleMessageSendingRequest(
       messages,
       allowDuplicates,
@@ -221,9 +796,10 @@ export class SolapiMessageService {
     const requestConfig: RequestConfig = {
       method: 'POST',
       url: `${this.baseUrl}/messages/v4/send-many`,
+      ...requestOptions,
     };
     return defaultFetcher<MultipleMessageSendingRequest, GroupMessageResponse>(
-      this.authInfo,
+      this.fetcherConfig,
       requestConfig,
       parameter,
     );
@@ -237,34 +813,98 @@ export class SolapiMessageService {
    * @param scheduledDate 예약 발송 일자
    * @param allowDuplicates 중복 수신번호 허용
    * @param appId appstore용 app id
+   * @param options 요청 취소(AbortSignal), 타임아웃, 야간 광고성 메시지 발송 제한 예외(allowNightAds) 등 요청 단위 옵션
+   * @throws NightAdvertisingError nightAdGuard 값이 reject이고 야간 시간에 광고성 메시지를 예약할 경우 발생합니다.
    */
   async sendManyFuture(
     messages: Array<Message>,
     scheduledDate: string | Date,
     allowDuplicates = false,
     appId?: string,
+    options?: SendRequestOptions,
   ): Promise<GroupMessageResponse> {
-    const groupId = await this.createGroup(allowDuplicates, appId);
-    await this.addMessagesToGroup(groupId, messages);
+    const {allowNightAds, ...requestOptions} = options ?? {};
     scheduledDate = stringDateTransfer(scheduledDate);
-    return this.reserveGroup(groupId, scheduledDate);
+    // 그룹을 생성하기 전에 확인하여 발송 제한으로 인해 빈 그룹이 남지 않도록 합니다.
+    scheduledDate =
+      this.getNightAdvertisingDate(
+        getAdvertisingMessageIndexes(messages),
+        scheduledDate,
+        allowNightAds,
+      ) ?? scheduledDate;
+    const groupId = await this.createGroup(
+      allowDuplicates,
+      appId,
+      requestOptions,
+    );
+    await this.addMessagesToGroup(groupId, messages, requestOptions);
+    // 추가한 메시지는 이미 확인했으므로 그룹 내 메시지 목록을 다시 조회하지 않습니다.
+    return this.reserveGroup(groupId, scheduledDate, {
+      ...requestOptions,
+      allowNightAds: true,
+    });
   }
 
   /**
    * 그룹 생성
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
    */
   async createGroup(
     allowDuplicates?: boolean,
     appId?: string,
+    options?: RequestOptions,
   ): Promise<GroupId> {
+    return this.requestCreateGroup(allowDuplicates, appId, options).then(
+      res => res.groupId,
+    );
+  }
+
+  /**
+   * 그룹을 생성하고 상태를 함께 관리하는 MessageGroup 객체를 반환
+   * @param allowDuplicates 같은 수신번호로 중복 발송을 허용할 지에 대한 여부
+   * @param appId 앱 ID
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
+   */
+  async createMessageGroup(
+    allowDuplicates?: boolean,
+    appId?: string,
+    options?: RequestOptions,
+  ): Promise<MessageGroup> {
+    const groupInfo = await this.requestCreateGroup(
+      allowDuplicates,
+      appId,
+      options,
+    );
+    return new MessageGroup(this, groupInfo, this.advertisingOptions);
+  }
+
+  /**
+   * 이미 생성된 그룹을 조회하여 MessageGroup 객체를 반환
+   * @param groupId 그룹 ID
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
+   */
+  async getMessageGroup(
+    groupId: GroupId,
+    options?: RequestOptions,
+  ): Promise<MessageGroup> {
+    const groupInfo = await this.getGroup(groupId, options);
+    return new MessageGroup(this, groupInfo, this.advertisingOptions);
+  }
+
+  private async requestCreateGroup(
+    allowDuplicates?: boolean,
+    appId?: string,
+    options?: RequestOptions,
+  ): Promise<GroupMessageResponse> {
     allowDuplicates = allowDuplicates ?? false;
     const {sdkVersion, osPlatform} = defaultAgent;
     const requestConfig: RequestConfig = {
       method: 'POST',
       url: `${this.baseUrl}/messages/v4/groups`,
+      ...options,
     };
     return defaultFetcher<CreateGroupRequest, GroupMessageResponse>(
-      this.authInfo,
+      this.fetcherConfig,
       requestConfig,
       {
         sdkVersion,
@@ -272,7 +912,7 @@ export class SolapiMessageService {
         allowDuplicates,
         appId,
       },
-    ).then(res => res.groupId);
+    );
   }
 
   /**
@@ -280,50 +920,136 @@ export class SolapiMessageService {
    * 한번 요청으로 최대 10,000건의 메시지를 추가할 수 있습니다.
    * @param groupId 생성 된 Group ID
    * @param messages 여러 메시지(문자, 알림톡 등)
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
    */
   async addMessagesToGroup(
     groupId: GroupId,
     messages: Required<Array<Message>>,
+    options?: RequestOptions,
   ): Promise<AddMessageResponse> {
     const requestConfig: RequestConfig = {
       method: 'PUT',
       url: `${this.baseUrl}/messages/v4/groups/${groupId}/messages`,
+      ...options,
     };
     return defaultFetcher<GroupMessageAddRequest, AddMessageResponse>(
-      this.authInfo,
+      this.fetcherConfig,
       requestConfig,
       new GroupMessageAddRequest(messages),
     );
   }
 
+  /**
+   * 그룹 메시지 분할 추가
+   * 한 번에 추가할 수 있는 최대 건수(10,000건)를 넘는 메시지를 여러 묶음(chunk)으로 나누어 동시에 추가한 뒤, 결과를 하나로 합쳐서 반환합니다.
+   * 요청이 실패한 묶음은 재시도하며, 결과에는 요청한 메시지 순번 별 메시지 ID 또는 실패 사유가 담깁니다.
+   * advertising 값이 true인 문자는 send 메소드와 같이 "(광고)" 표기, 전송자 명칭, 080 무료수신거부 번호를 추가한 뒤 그룹에 추가합니다.
+   * 결과를 요청한 메시지와 연결하기 위해 각 메시지의 customFields에 solapiUploadKey 값이 추가됩니다.
+   * 추가가 끝난 뒤 sendGroup 또는 reserveGroup 메소드로 발송할 수 있습니다.
+   * @param groupId 생성 된 Group ID
+   * @param messages 추가할 메시지 목록
+   * @param uploadOptions 묶음 크기, 동시 요청 수, 재시도 횟수 등 분할 추가 설정
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
+   * @throws InvalidRecipientsError 수신/발신번호 형식이 올바르지 않을 경우 요청 전에 발생합니다.
+   * @throws BadRequestError 광고성 문자 추가 시 080 수신거부 번호가 설정되지 않았을 경우 발생합니다.
+   */
+  async uploadMessagesToGroup(
+    groupId: GroupId,
+    messages: Array<MessageParameter>,
+    uploadOptions?: GroupUploadOptions,
+    options?: RequestOptions,
+  ): Promise<GroupUploadReport> {
+    const {chunkSize = maxMessagesPerRequest} = uploadOptions ?? {};
+    if (messages.length === 0) {
+      throw new BadRequestError(
+        '데이터가 반드시 1건 이상 기입되어 있어야 합니다.',
+      );
+    }
+    if (chunkSize < 1 || chunkSize > maxMessagesPerRequest) {
+      throw new BadRequestError(
+        `chunkSize는 1 이상 ${maxMessagesPerRequest} 이하로 입력해야 합니다.`,
+      );
+    }
+    const invalidRecipients = findInvalidRecipients(messages);
+    if (invalidRecipients.length > 0) {
+      throw new InvalidRecipientsError(invalidRecipients);
+    }
+    return uploadMessagesToGroup(
+      this,
+      groupId,
+      this.applyAdvertisingMode(messages),
+      {...uploadOptions, chunkSize},
+      options,
+    );
+  }
+
   /**
    * 그룹 메시지 전송 요청
+   * nightAdGuard 설정 시 야간 시간에는 그룹 내 메시지 목록을 조회하여 광고성 메시지 포함 여부를 확인합니다.
    * @param groupId 생성 된 Group ID
+   * @param options 요청 취소(AbortSignal), 타임아웃, 야간 광고성 메시지 발송 제한 예외(allowNightAds) 등 요청 단위 옵션
+   * @throws NightAdvertisingError nightAdGuard 값이 reject이고 야간 시간에 광고성 메시지를 발송할 경우 발생합니다.
+   * nightAdGuard 값이 reschedule일 경우 발송 가능한 시각으로 예약 발송합니다.
    */
-  async sendGroup(groupId: GroupId): Promise<GroupMessageResponse> {
+  async sendGroup(
+    groupId: GroupId,
+    options?: SendRequestOptions,
+  ): Promise<GroupMessageResponse> {
+    const {allowNightAds, ...requestOptions} = options ?? {};
+    const nextAdvertisingDate = await this.getGroupNightAdvertisingDate(
+      groupId,
+      undefined,
+      allowNightAds,
+      requestOptions,
+    );
+    if (nextAdvertisingDate) {
+      return this.reserveGroup(groupId, nextAdvertisingDate, {
+        ...requestOptions,
+        allowNightAds: true,
+      });
+    }
     const requestConfig: RequestConfig = {
       method: 'POST',
       url: `${this.baseUrl}/messages/v4/groups/${groupId}/send`,
+      ...requestOptions,
     };
     return defaultFetcher<never, GroupMessageResponse>(
-      this.authInfo,
+      this.fetcherConfig,
       requestConfig,
     );
   }
 
   /**
    * 그룹 예약 발송 설정
+   * nightAdGuard 설정 시 예약일시가 야간 시간이면 그룹 내 메시지 목록을 조회하여 광고성 메시지 포함 여부를 확인합니다.
    * @param groupId 생성 된 Group ID
    * @param scheduledDate 예약발송 할 날짜
+   * @param options 요청 취소(AbortSignal), 타임아웃, 야간 광고성 메시지 발송 제한 예외(allowNightAds) 등 요청 단위 옵션
+   * @throws NightAdvertisingError nightAdGuard 값이 reject이고 야간 시간으로 광고성 메시지를 예약할 경우 발생합니다.
+   * nightAdGuard 값이 reschedule일 경우 발송 가능한 시각으로 예약합니다.
    */
-  async reserveGroup(groupId: GroupId, scheduledDate: Date) {
+  async reserveGroup(
+    groupId: GroupId,
+    scheduledDate: Date,
+    options?: SendRequestOptions,
+  ) {
+    const {allowNightAds, ...requestOptions} = options ?? {};
+    const nextAdvertisingDate = await this.getGroupNightAdvertisingDate(
+      groupId,
+      scheduledDate,
+      allowNightAds,
+      requestOptions,
+    );
     const requestConfig: RequestConfig = {
       method: 'POST',
       url: `${this.baseUrl}/messages/v4/groups/${groupId}/schedule`,
+      ...requestOptions,
     };
-    const formattedScheduledDate = formatISO(scheduledDate);
+    const formattedScheduledDate = formatISO(
+      nextAdvertisingDate ?? scheduledDate,
+    );
     return defaultFetcher<ScheduledDateSendingRequest, GroupMessageResponse>(
-      this.authInfo,
+      this.fetcherConfig,
       requestConfig,
       {
         scheduledDate: formattedScheduledDate,
@@ -334,23 +1060,48 @@ export class SolapiMessageService {
   /**
    * 단일 그룹정보 조회
    * @param groupId 그룹 ID
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
    */
-  async getGroup(groupId: GroupId): Promise<GroupMessageResponse> {
+  async getGroup(
+    groupId: GroupId,
+    options?: RequestOptions,
+  ): Promise<GroupMessageResponse> {
     const requestConfig: RequestConfig = {
       method: 'GET',
       url: `${this.baseUrl}/messages/v4/groups/${groupId}`,
+      ...options,
     };
     return defaultFetcher<never, GroupMessageResponse>(
-      this.authInfo,
+      this.fetcherConfig,
       requestConfig,
     );
   }
 
+  /**
+   * 발송 결과 조회
+   * 모든 메시지가 최종 상태(수신 완료, 발송 실패)에 도달하거나 제한 시간이 지날 때까지 그룹 정보를 주기적으로 조회합니다.
+   * @param target send 메소드의 응답 데이터 또는 그룹 ID
+   * @param trackingOptions 제한 시간, 조회 간격, 진행 상황 콜백 등 발송 결과 조회 설정
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
+   * @returns DeliveryReport 메시지 별 최종 발송 결과
+   * @throws RequestAbortedError AbortSignal을 통해 조회가 취소되었을 경우 발생합니다.
+   */
+  async trackDelivery(
+    target: DetailGroupMessageResponse | GroupId,
+    trackingOptions?: DeliveryTrackingOptions,
+    options?: RequestOptions,
+  ): Promise<DeliveryReport> {
+    const groupId =
+      typeof target === 'string' ? target : target.groupInfo.groupId;
+    return trackDelivery(this, groupId, trackingOptions, options);
+  }
+
   /**
    * 그룹 목록 정보 조회
    * @param data 그룹 정보 상세 조회용 request 데이터
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
    */
-  async getGroups(data?: GetGroupsRequest) {
+  async getGroups(data?: GetGroupsRequest, options?: RequestOptions) {
     let payload: GetGroupsFinalizeRequest = {};
     if (data) {
       payload = new GetGroupsFinalizeRequest(data);
@@ -363,21 +1114,51 @@ export class SolapiMessageService {
     const requestConfig: RequestConfig = {
       method: 'GET',
       url: endpoint,
+      ...options,
     };
     return defaultFetcher<never, GetGroupsResponse>(
-      this.authInfo,
+      this.fetcherConfig,
       requestConfig,
     );
   }
 
+  /**
+   * 그룹 목록을 nextKey를 따라가며 하나씩 조회하는 비동기 반복자
+   * @param data 그룹 목록 조회 조건, startKey 값이 있을 경우 해당 키부터 조회합니다.
+   * @param paginationOptions 페이지 크기, 최대 항목 수 등 반복자 설정
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
+   */
+  iterateGroups(
+    data?: GetGroupsRequest,
+    paginationOptions?: PaginationOptions,
+    options?: RequestOptions,
+  ): AsyncGenerator<Group, void, undefined> {
+    return paginate(
+      async (startKey, limit) => {
+        const response = await this.getGroups(
+          {...data, startKey, limit: limit ?? data?.limit},
+          options,
+        );
+        return {
+          items: Object.values(response.groupList),
+          nextKey: response.nextKey,
+        };
+      },
+      data?.startKey,
+      paginationOptions,
+    );
+  }
+
   /**
    * 그룹 내 메시지 목록 조회
    * @param groupId 생성 된 Group ID
    * @param data startkey, limit 등 쿼리 조건 파라미터
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
    */
   async getGroupMessages(
     groupId: GroupId,
     data?: GetGroupMessagesRequest,
+    options?: RequestOptions,
   ): Promise<GetMessagesResponse> {
     const parameter = qs.stringify(data, {
       indices: false,
@@ -387,45 +1168,82 @@ export class SolapiMessageService {
     const requestConfig: RequestConfig = {
       method: 'GET',
       url: endpoint,
+      ...options,
     };
     return defaultFetcher<never, GetMessagesResponse>(
-      this.authInfo,
+      this.fetcherConfig,
       requestConfig,
     );
   }
 
+  /**
+   * 그룹 내 메시지 목록을 nextKey를 따라가며 하나씩 조회하는 비동기 반복자
+   * @param groupId 생성 된 Group ID
+   * @param data startKey 값이 있을 경우 해당 키부터 조회합니다.
+   * @param paginationOptions 페이지 크기, 최대 항목 수 등 반복자 설정
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
+   */
+  iterateGroupMessages(
+    groupId: GroupId,
+    data?: GetGroupMessagesRequest,
+    paginationOptions?: PaginationOptions,
+    options?: RequestOptions,
+  ): AsyncGenerator<Message, void, undefined> {
+    return paginate(
+      async (startKey, limit) => {
+        const response = await this.getGroupMessages(
+          groupId,
+          {...data, startKey, limit: limit ?? data?.limit},
+          options,
+        );
+        return {
+          items: Object.values(response.messageList),
+          nextKey: response.nextKey,
+        };
+      },
+      data?.startKey,
+      paginationOptions,
+    );
+  }
+
   /**
    * 그룹 내 특정 메시지 삭제
    * @param groupId 생성 된 Group Id
    * @param messageIds 생성 된 메시지 ID 목록
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
    */
   async removeGroupMessages(
     groupId: GroupId,
     messageIds: Required<Array<string>>,
+    options?: RequestOptions,
   ): Promise<RemoveGroupMessagesResponse> {
     const requestConfig: RequestConfig = {
       method: 'DELETE',
       url: `${this.baseUrl}/messages/v4/groups/${groupId}/messages`,
+      ...options,
     };
     return defaultFetcher<
       RemoveMessageIdsToGroupRequest,
       RemoveGroupMessagesResponse
-    >(this.authInfo, requestConfig, {messageIds});
+    >(this.fetcherConfig, requestConfig, {messageIds});
   }
 
   /**
    * 그룹 내 예약 발송 취소(메시지 실패 전체 처리 됨)
    * @param groupId 생성 된 Group ID
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
    */
   async removeReservationToGroup(
     groupId: GroupId,
+    options?: RequestOptions,
   ): Promise<GroupMessageResponse> {
     const requestConfig: RequestConfig = {
       method: 'DELETE',
       url: `${this.baseUrl}/messages/v4/groups/${groupId}/schedule`,
+      ...options,
     };
     return defaultFetcher<never, GroupMessageResponse>(
-      this.authInfo,
+      this.fetcherConfig,
       requestConfig,
     );
   }
@@ -433,14 +1251,16 @@ export class SolapiMessageService {
   /**
    * 그룹 삭제
    * @param groupId
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
    */
-  async removeGroup(groupId: GroupId) {
+  async removeGroup(groupId: GroupId, options?: RequestOptions) {
     const requestConfig: RequestConfig = {
       method: 'DELETE',
       url: `${this.baseUrl}/messages/v4/groups/${groupId}`,
+      ...options,
     };
     return defaultFetcher<never, GroupMessageResponse>(
-      this.authInfo,
+      this.fetcherConfig,
       requestConfig,
     );
   }
@@ -448,9 +1268,11 @@ export class SolapiMessageService {
   /**
    * 메시지 목록 조회
    * @param data 목록 조회 상세조건 파라미터
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
    */
   async getMessages(
     data?: Readonly<GetMessagesRequest>,
+    options?: RequestOptions,
   ): Promise<GetMessagesResponse> {
     let payload: GetMessagesFinalizeRequest = {};
     if (data) {
@@ -464,20 +1286,50 @@ export class SolapiMessageService {
     const requestConfig: RequestConfig = {
       method: 'GET',
       url: endpoint,
+      ...options,
     };
     return defaultFetcher<never, GetMessagesResponse>(
-      this.authInfo,
+      this.fetcherConfig,
       requestConfig,
     );
   }
 
+  /**
+   * 메시지 목록을 nextKey를 따라가며 하나씩 조회하는 비동기 반복자
+   * @param data 목록 조회 상세조건 파라미터, startKey 값이 있을 경우 해당 키부터 조회합니다.
+   * @param paginationOptions 페이지 크기, 최대 항목 수 등 반복자 설정
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
+   */
+  iterateMessages(
+    data?: Readonly<GetMessagesRequest>,
+    paginationOptions?: PaginationOptions,
+    options?: RequestOptions,
+  ): AsyncGenerator<Message, void, undefined> {
+    return paginate(
+      async (startKey, limit) => {
+        const response = await this.getMessages(
+          {...data, startKey, limit: limit ?? data?.limit},
+          options,
+        );
+        return {
+          items: Object.values(response.messageList),
+          nextKey: response.nextKey,
+        };
+      },
+      data?.startKey,
+      paginationOptions,
+    );
+  }
+
   /**
    * 통계 조회
    * @param data 통계 상세 조건 파라미터
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
    * @returns GetStatisticsResponse 통계 결과
    */
   async getStatistics(
     data?: Readonly<GetStatisticsRequest>,
+    options?: RequestOptions,
   ): Promise<GetStatisticsResponse> {
     let payload: GetStatisticsFinalizeRequest = {};
     if (data) {
@@ -491,24 +1343,27 @@ export class SolapiMessageService {
     const requestConfig: RequestConfig = {
       method: 'GET',
       url: endpoint,
+      ...options,
     };
     return defaultFetcher<never, GetStatisticsResponse>(
-      this.authInfo,
+      this.fetcherConfig,
       requestConfig,
     );
   }
 
   /**
    * 잔액조회
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
    * @returns GetBalanceResponse
    */
-  async getBalance(): Promise<GetBalanceResponse> {
+  async getBalance(options?: RequestOptions): Promise<GetBalanceResponse> {
     const requestConfig: RequestConfig = {
       method: 'GET',
       url: `${this.baseUrl}/cash/v1/balance`,
+      ...options,
     };
     const response = await defaultFetcher<never, GetBalanceResponse>(
-      this.authInfo,
+      this.fetcherConfig,
       requestConfig,
     );
     return {
@@ -518,23 +1373,83 @@ export class SolapiMessageService {
   }
 
   /**
-   * 파일(이미지) 업로드
+   * 발송 전 예상 비용 계산
+   * 메시지 별 유형을 판별하여 유형, 국가 별 예상 비용을 계산한 뒤 현재 잔액과 비교합니다.
+   * @param messages 발송 요청할 메시지 파라미터(문자, 알림톡 등)
+   * @param priceTable 메시지 유형 별 건당 단가, 값 미기입시 SolapiMessageService 생성 시 설정한 priceTable 값을 사용합니다.
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
+   */
+  async estimateCost(
+    messages: MessageParameter | Array<MessageParameter>,
+    priceTable?: MessagePriceTable,
+    options?: RequestOptions,
+  ): Promise<CostEstimateWithBalance> {
+    const estimate = estimateMessageCost(
+      Array.isArray(messages) ? messages : [messages],
+      priceTable ?? this.priceTable,
+    );
+    const {balance, point} = await this.getBalance(options);
+    return {
+      ...estimate,
+      balance,
+      point,
+      sufficient: estimate.totalCost <= balance + point,
+    };
+  }
+
+  /**
+   * 예상 비용이 잔액과 포인트의 합을 넘지 않는지 확인하는 함수
+   * @param messages 발송 요청할 메시지 파라미터 목록
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
+   */
+  private async assertSufficientBalance(
+    messages: Array<MessageParameter>,
+    options?: RequestOptions,
+  ) {
+    const estimate = await this.estimateCost(messages, undefined, options);
+    if (estimate.missingPrices.length > 0) {
+      const missingPrices = estimate.missingPrices
+        .map(({type, country}) => `${type}(${country})`)
+        .join(', ');
+      throw new BadRequestError(
+        `단가가 설정되지 않은 메시지 유형이 있어 예상 비용을 계산할 수 없습니다: ${missingPrices}`,
+      );
+    }
+    if (!estimate.sufficient) {
+      throw new InsufficientBalanceError(
+        'NotEnoughBalance',
+        `예상 발송 비용(${estimate.totalCost})이 잔액과 포인트의 합(${
+          estimate.balance + estimate.point
+        })보다 큽니다.`,
+      );
+    }
+  }
+
+  /**
+   * 파일(이미지, 문서) 업로드
    * 카카오 친구톡 이미지는 500kb, MMS는 200kb, 발신번호 서류 인증용 파일은 2mb의 제한이 있음
+   * 팩스 문서(FAX)는 PDF 등 이미지가 아닌 파일도 업로드할 수 있습니다.
    * @param filePath 해당 파일의 경로 또는 접근 가능한 이미지 URL
-   * @param fileType 저장할 파일의 유형, 예) 카카오 친구톡 용 이미지 -> KAKAO, MMS용 사진 -> MMS, 발신번호 서류 인증에 쓰이는 문서 등 -> DOCUMENT, RCS 이미지 -> RCS
+   * @param fileType 저장할 파일의 유형, 예) 카카오 친구톡 용 이미지 -> KAKAO, MMS용 사진 -> MMS, 발신번호 서류 인증에 쓰이는 문서 등 -> DOCUMENT, RCS 이미지 -> RCS, 팩스 문서 -> FAX
    * @param name 파일 이름
    * @param link 파일 링크, 친구톡의 경우 필수 값
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
    */
   async uploadFile(
     filePath: string,
     fileType: FileType,
     name?: string,
     link?: string,
+    options?: RequestOptions,
   ): Promise<FileUploadResponse> {
-    const encodedFile = await ImageToBase64(filePath);
+    const encodedFile =
+      fileType === 'FAX' && !/^https?:\/\//i.test(filePath)
+        ? await fs.readFile(filePath, 'base64')
+        : await ImageToBase64(filePath);
     const requestConfig: RequestConfig = {
       method: 'POST',
       url: `${this.baseUrl}/storage/v1/files`,
+      ...options,
     };
     const parameter: FileUploadRequest = {
       file: encodedFile,
@@ -543,7 +1458,7 @@ export class SolapiMessageService {
       link,
     };
     return defaultFetcher<FileUploadRequest, FileUploadResponse>(
-      this.authInfo,
+      this.fetcherConfig,
       requestConfig,
       parameter,
     );
@@ -551,14 +1466,18 @@ export class SolapiMessageService {
 
   /**
    * 카카오 채널 카테고리 조회
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
    */
-  async getKakaoChannelCategories(): Promise<Array<KakaoChannelCategory>> {
+  async getKakaoChannelCategories(
+    options?: RequestOptions,
+  ): Promise<Array<KakaoChannelCategory>> {
     const requestConfig: RequestConfig = {
       method: 'GET',
       url: `${this.baseUrl}/kakao/v2/channels/categories`,
+      ...options,
     };
     return defaultFetcher<never, Array<KakaoChannelCategory>>(
-      this.authInfo,
+      this.fetcherConfig,
       requestConfig,
     );
   }
@@ -566,9 +1485,11 @@ export class SolapiMessageService {
   /**
    * 카카오 채널 목록 조회
    * @param data 카카오 채널 목록을 더 자세하게 조회할 때 필요한 파라미터
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
    */
   async getKakaoChannels(
     data?: GetKakaoChannelsRequest,
+    options?: RequestOptions,
   ): Promise<GetKakaoChannelsFinalizeResponse> {
     let payload: GetKakaoChannelsFinalizeRequest = {};
     if (data) {
@@ -579,9 +1500,10 @@ export class SolapiMessageService {
     const requestConfig: RequestConfig = {
       method: 'GET',
       url: endpoint,
+      ...options,
     };
     const response = await defaultFetcher<never, GetKakaoChannelsResponse>(
-      this.authInfo,
+      this.fetcherConfig,
       requestConfig,
     );
     const channelList = new Array<KakaoChannel>();
@@ -596,17 +1518,46 @@ export class SolapiMessageService {
     };
   }
 
+  /**
+   * 카카오 채널 목록을 nextKey를 따라가며 하나씩 조회하는 비동기 반복자
+   * @param data 카카오 채널 목록 조회 조건, startKey 값이 있을 경우 해당 키부터 조회합니다.
+   * @param paginationOptions 페이지 크기, 최대 항목 수 등 반복자 설정
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
+   */
+  iterateKakaoChannels(
+    data?: GetKakaoChannelsRequest,
+    paginationOptions?: PaginationOptions,
+    options?: RequestOptions,
+  ): AsyncGenerator<KakaoChannel, void, undefined> {
+    return paginate(
+      async (startKey, limit) => {
+        const response = await this.getKakaoChannels(
+          {...data, startKey, limit: limit ?? data?.limit},
+          options,
+        );
+        return {items: response.channelList, nextKey: response.nextKey};
+      },
+      data?.startKey,
+      paginationOptions,
+    );
+  }
+
   /**
    * @description 카카오 채널 조회
    * @param channelId 카카오 채널 ID(구 pfId)
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
    */
-  async getKakaoChannel(channelId: string): Promise<KakaoChannel> {
+  async getKakaoChannel(
+    channelId: string,
+    options?: RequestOptions,
+  ): Promise<KakaoChannel> {
     const requestConfig: RequestConfig = {
       method: 'GET',
       url: `${this.baseUrl}/kakao/v2/channels/${channelId}`,
+      ...options,
     };
     const response = await defaultFetcher<never, KakaoChannelInterface>(
-      this.authInfo,
+      this.fetcherConfig,
       requestConfig,
     );
     return new KakaoChannel(response);
@@ -614,55 +1565,71 @@ export class SolapiMessageService {
 
   /**
    * @description 카카오 채널 연동을 위한 인증 토큰 요청
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
    */
   async requestKakaoChannelToken(
     data: CreateKakaoChannelTokenRequest,
+    options?: RequestOptions,
   ): Promise<RequestKakaoChannelTokenResponse> {
     const requestConfig: RequestConfig = {
       method: 'POST',
       url: `${this.baseUrl}/kakao/v2/channels/token`,
+      ...options,
     };
     return defaultFetcher<
       CreateKakaoChannelTokenRequest,
       RequestKakaoChannelTokenResponse
-    >(this.authInfo, requestConfig, data);
+    >(this.fetcherConfig, requestConfig, data);
   }
 
   /**
    * @description 카카오 채널 연동 메소드
    * getKakaoChannelCategories, requestKakaoChannelToken 메소드를 선행적으로 호출해야 합니다!
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
    */
   async createKakaoChannel(
     data: CreateKakaoChannelRequest,
+    options?: RequestOptions,
   ): Promise<CreateKakaoChannelResponse> {
     const requestConfig: RequestConfig = {
       method: 'POST',
       url: `${this.baseUrl}/kakao/v2/channels`,
+      ...options,
     };
     return defaultFetcher<
       CreateKakaoChannelRequest,
       CreateKakaoChannelResponse
-    >(this.authInfo, requestConfig, data);
+    >(this.fetcherConfig, requestConfig, data);
   }
 
   /**
    * @description 카카오 채널 삭제, 채널이 삭제 될 경우 해당 채널의 템플릿이 모두 삭제됩니다!
    * @param channelId 카카오 채널 ID
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
    */
-  async removeKakaoChannel(channelId: string): Promise<KakaoChannel> {
+  async removeKakaoChannel(
+    channelId: string,
+    options?: RequestOptions,
+  ): Promise<KakaoChannel> {
     const requestConfig: RequestConfig = {
       method: 'DELETE',
       url: `${this.baseUrl}/kakao/v2/channels/${channelId}`,
+      ...options,
     };
-    return defaultFetcher<never, KakaoChannel>(this.authInfo, requestConfig);
+    return defaultFetcher<never, KakaoChannel>(
+      this.fetcherConfig,
+      requestConfig,
+    );
   }
 
   /**
    * 카카오 템플릿 목록 조회
    * @param data 카카오 템플릿 목록을 더 자세하게 조회할 때 필요한 파라미터
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
    */
   async getKakaoAlimtalkTemplates(
     data?: GetKakaoAlimtalkTemplatesRequest,
+    options?: RequestOptions,
   ): Promise<GetKakaoAlimtalkTemplatesFinalizeResponse> {
     let payload: GetKakaoAlimtalkTemplatesFinalizeRequest = {};
     if (data) {
@@ -674,11 +1641,12 @@ export class SolapiMessageService {
     const requestConfig: RequestConfig = {
       method: 'GET',
       url: endpoint,
+      ...options,
     };
     const response = await defaultFetcher<
       never,
       GetKakaoAlimtalkTemplatesResponse
-    >(this.authInfo, requestConfig);
+    >(this.fetcherConfig, requestConfig);
 
     const templateList = new Array<KakaoAlimtalkTemplate>();
     for (const template of response.templateList) {
@@ -693,36 +1661,172 @@ export class SolapiMessageService {
     };
   }
 
+  /**
+   * 카카오 알림톡 템플릿 목록을 nextKey를 따라가며 하나씩 조회하는 비동기 반복자
+   * @param data 카카오 템플릿 목록 조회 조건, startKey 값이 있을 경우 해당 키부터 조회합니다.
+   * @param paginationOptions 페이지 크기, 최대 항목 수 등 반복자 설정
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
+   */
+  iterateKakaoAlimtalkTemplates(
+    data?: GetKakaoAlimtalkTemplatesRequest,
+    paginationOptions?: PaginationOptions,
+    options?: RequestOptions,
+  ): AsyncGenerator<KakaoAlimtalkTemplate, void, undefined> {
+    return paginate(
+      async (startKey, limit) => {
+        const response = await this.getKakaoAlimtalkTemplates(
+          {...data, startKey, limit: limit ?? data?.limit},
+          options,
+        );
+        return {items: response.templateList, nextKey: response.nextKey};
+      },
+      data?.startKey,
+      paginationOptions,
+    );
+  }
+
   /**
    * 카카오 템플릿 상세 조회
    * @param templateId 카카오 알림톡 템플릿 ID
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
    */
   async getKakaoAlimtalkTemplate(
     templateId: string,
+    options?: RequestOptions,
   ): Promise<KakaoAlimtalkTemplate> {
     const requestConfig: RequestConfig = {
       method: 'GET',
       url: `${this.baseUrl}/kakao/v2/templates/${templateId}`,
+      ...options,
     };
     const response = await defaultFetcher<never, GetKakaoTemplateResponse>(
-      this.authInfo,
+      this.fetcherConfig,
       requestConfig,
     );
     return new KakaoAlimtalkTemplate(response);
   }
 
+  /**
+   * 발송 전 알림톡 메시지 검증
+   * 알림톡 메시지 별로 템플릿이 발송 가능한 상태(APPROVED, 숨김 해제)인지, 템플릿의 변수와 kakaoOptions.variables 값이 일치하는지 확인합니다.
+   * 조회한 템플릿은 alimtalkTemplateCacheTtl 설정 값만큼 재사용됩니다.
+   * @param messages 발송 요청할 메시지 파라미터(문자, 알림톡 등), 알림톡이 아닌 메시지는 검증하지 않습니다.
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
+   * @return 검증 실패 목록, 문제가 없을 경우 빈 배열을 반환합니다.
+   */
+  async validateAlimtalkMessages(
+    messages: MessageParameter | Array<MessageParameter>,
+    options?: RequestOptions,
+  ): Promise<Array<InvalidAlimtalkMessage>> {
+    const alimtalkMessages = (Array.isArray(messages) ? messages : [messages])
+      .map((message, index) => ({message, index}))
+      .filter(({message}) => detectMessageType(message).type === 'ATA');
+    const templateIds = alimtalkMessages
+      .map(({message}) => message.kakaoOptions?.templateId)
+      .filter((templateId, index, array): templateId is string => {
+        return !!templateId && array.indexOf(templateId) === index;
+      });
+    const templates = new Map<string, KakaoAlimtalkTemplate | undefined>();
+    await Promise.all(
+      templateIds.map(async templateId => {
+        try {
+          templates.set(
+            templateId,
+            await this.getCachedAlimtalkTemplate(templateId, options),
+          );
+        } catch (error) {
+          if (!(error instanceof NotFoundError)) {
+            throw error;
+          }
+          templates.set(templateId, undefined);
+        }
+      }),
+    );
+
+    const invalidMessages: Array<InvalidAlimtalkMessage> = [];
+    alimtalkMessages.forEach(({message, index}) => {
+      const templateId = message.kakaoOptions?.templateId ?? '';
+      const template = templates.get(templateId);
+      if (!template) {
+        invalidMessages.push({
+          index,
+          templateId,
+          reason: 'TEMPLATE_NOT_FOUND',
+          message: templateId
+            ? `템플릿을 찾을 수 없습니다: ${templateId}`
+            : '템플릿 ID가 입력되지 않았습니다.',
+        });
+        return;
+      }
+      invalidMessages.push(
+        ...validateAlimtalkVariables(
+          index,
+          template,
+          message.kakaoOptions?.variables,
+        ),
+      );
+    });
+    return invalidMessages;
+  }
+
+  /**
+   * 캐시된 알림톡 템플릿을 가져오는 함수, 캐시가 없거나 만료된 경우 새로 조회합니다.
+   * @param templateId 알림톡 템플릿 ID
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
+   */
+  private getCachedAlimtalkTemplate(
+    templateId: string,
+    options?: RequestOptions,
+  ): Promise<KakaoAlimtalkTemplate> {
+    const cached = this.alimtalkTemplateCache.get(templateId);
+    if (cached && Date.now() < cached.expiresAt) {
+      return cached.template;
+    }
+    const template = this.getKakaoAlimtalkTemplate(templateId, options).catch(
+      error => {
+        this.alimtalkTemplateCache.delete(templateId);
+        throw error;
+      },
+    );
+    this.alimtalkTemplateCache.set(templateId, {
+      template,
+      expiresAt: Date.now() + this.alimtalkTemplateCacheTtl,
+    });
+    return template;
+  }
+
+  /**
+   * 알림톡 메시지 검증에 실패한 메시지가 없는지 확인하는 함수
+   * @param messages 발송 요청할 메시지 파라미터 목록
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
+   */
+  private async assertValidAlimtalkMessages(
+    messages: Array<MessageParameter>,
+    options?: RequestOptions,
+  ) {
+    const invalidMessages = await this.validateAlimtalkMessages(
+      messages,
+      options,
+    );
+    if (invalidMessages.length > 0) {
+      throw new InvalidAlimtalkMessagesError(invalidMessages);
+    }
+  }
+
   /**
    * 카카오 템플릿 카테고리 조회
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
    */
-  async getKakaoAlimtalkTemplateCategories(): Promise<
-    Array<KakaoAlimtalkTemplateCategory>
-  > {
+  async getKakaoAlimtalkTemplateCategories(
+    options?: RequestOptions,
+  ): Promise<Array<KakaoAlimtalkTemplateCategory>> {
     const requestConfig: RequestConfig = {
       method: 'GET',
       url: `${this.baseUrl}/kakao/v2/templates/categories`,
+      ...options,
     };
     return defaultFetcher<never, Array<KakaoAlimtalkTemplateCategory>>(
-      this.authInfo,
+      this.fetcherConfig,
       requestConfig,
     );
   }
@@ -731,19 +1835,22 @@ export class SolapiMessageService {
    * @description 카카오 알림톡 템플릿 생성
    * 반드시 getKakaoAlimtalkTemplateCategories를 먼저 호출하여 카테고리 값을 확인해야 합니다!
    * @param data 알림톡 템플릿 생성을 위한 파라미터
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
    */
   async createKakaoAlimtalkTemplate(
     data: CreateKakaoAlimtalkTemplateRequest,
+    options?: RequestOptions,
   ): Promise<KakaoAlimtalkTemplate> {
     const requestConfig: RequestConfig = {
       method: 'POST',
       url: `${this.baseUrl}/kakao/v2/templates`,
+      ...options,
     };
 
     const response = await defaultFetcher<
       CreateKakaoAlimtalkTemplateRequest,
       KakaoAlimtalkTemplateInterface
-    >(this.authInfo, requestConfig, data);
+    >(this.fetcherConfig, requestConfig, data);
 
     return new KakaoAlimtalkTemplate(response);
   }
@@ -751,18 +1858,21 @@ export class SolapiMessageService {
   /**
    * 카카오 알림톡 템플릿 검수 요청
    * @param templateId 카카오 알림톡 템플릿 ID
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
    */
   async requestInspectionKakaoAlimtalkTemplate(
     templateId: string,
+    options?: RequestOptions,
   ): Promise<KakaoAlimtalkTemplate> {
     const requestConfig: RequestConfig = {
       method: 'PUT',
       url: `${this.baseUrl}/kakao/v2/templates/${templateId}/inspection`,
+      ...options,
     };
     const response = await defaultFetcher<
       never,
       KakaoAlimtalkTemplateInterface
-    >(this.authInfo, requestConfig);
+    >(this.fetcherConfig, requestConfig);
 
     return new KakaoAlimtalkTemplate(response);
   }
@@ -770,18 +1880,21 @@ export class SolapiMessageService {
   /**
    * 카카오 알림톡 템플릿 검수 취소 요청
    * @param templateId 카카오 알림톡 템플릿 ID
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
    */
   async cancelInspectionKakaoAlimtalkTemplate(
     templateId: string,
+    options?: RequestOptions,
   ): Promise<KakaoAlimtalkTemplate> {
     const requestConfig: RequestConfig = {
       method: 'PUT',
       url: `${this.baseUrl}/kakao/v2/templates/${templateId}/inspection/cancel`,
+      ...options,
     };
     const response = await defaultFetcher<
       never,
       KakaoAlimtalkTemplateInterface
-    >(this.authInfo, requestConfig);
+    >(this.fetcherConfig, requestConfig);
 
     return new KakaoAlimtalkTemplate(response);
   }
@@ -790,19 +1903,22 @@ export class SolapiMessageService {
    * 카카오 알림톡 템플릿 수정(검수 X)
    * @param templateId 카카오 알림톡 템플릿 ID
    * @param data 카카오 알림톡 템플릿 수정을 위한 파라미터
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
    */
   async updateKakaoAlimtalkTemplate(
     templateId: string,
     data: UpdateKakaoAlimtalkTemplateRequest,
+    options?: RequestOptions,
   ): Promise<KakaoAlimtalkTemplate> {
     const requestConfig: RequestConfig = {
       method: 'PUT',
       url: `${this.baseUrl}/kakao/v2/templates/${templateId}`,
+      ...options,
     };
     const response = await defaultFetcher<
       UpdateKakaoAlimtalkTemplateRequest,
       KakaoAlimtalkTemplateInterface
-    >(this.authInfo, requestConfig, data);
+    >(this.fetcherConfig, requestConfig, data);
 
     return new KakaoAlimtalkTemplate(response);
   }
@@ -811,21 +1927,24 @@ export class SolapiMessageService {
    * 카카오 알림톡 템플릿 이름 수정(검수 상태 상관없이 변경가능)
    * @param templateId 카카오 알림톡 템플릿 ID
    * @param name 카카오 알림톡 템플릿 이름 변경을 위한 파라미터
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
    */
   async updateKakaoAlimtalkTemplateName(
     templateId: string,
     name: string,
+    options?: RequestOptions,
   ): Promise<KakaoAlimtalkTemplate> {
     const requestConfig: RequestConfig = {
       method: 'PUT',
       url: `${this.baseUrl}/kakao/v2/templates/${templateId}/name`,
+      ...options,
     };
     const response = await defaultFetcher<
       {
         name: string;
       },
       KakaoAlimtalkTemplateInterface
-    >(this.authInfo, requestConfig, {name});
+    >(this.fetcherConfig, requestConfig, {name});
 
     return new KakaoAlimtalkTemplate(response);
   }
@@ -834,28 +1953,33 @@ export class SolapiMessageService {
    * @deprecated 해당 메소드는 더이상 사용되지 않습니다. removeKakaoAlimtalkTemplate를 이용해주세요!
    * 카카오 알림톡 템플릿 삭제(대기, 반려 상태일 때만 삭제가능)
    * @param templateId 카카오 알림톡 템플릿 ID
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
    */
   async deleteKakaoAlimtalkTemplate(
     templateId: string,
+    options?: RequestOptions,
   ): Promise<KakaoAlimtalkTemplate> {
-    return this.removeKakaoAlimtalkTemplate(templateId);
+    return this.removeKakaoAlimtalkTemplate(templateId, options);
   }
 
   /**
    * 카카오 알림톡 템플릿 삭제(대기, 반려 상태일 때만 삭제가능)
    * @param templateId 카카오 알림톡 템플릿 ID
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
    */
   async removeKakaoAlimtalkTemplate(
     templateId: string,
+    options?: RequestOptions,
   ): Promise<KakaoAlimtalkTemplate> {
     const requestConfig: RequestConfig = {
       method: 'DELETE',
       url: `${this.baseUrl}/kakao/v2/templates/${templateId}`,
+      ...options,
     };
     const response = await defaultFetcher<
       never,
       KakaoAlimtalkTemplateInterface
-    >(this.authInfo, requestConfig);
+    >(this.fetcherConfig, requestConfig);
 
     return new KakaoAlimtalkTemplate(response);
   }
@@ -863,9 +1987,13 @@ export class SolapiMessageService {
   /**
    * 080 수신 거부 조회
    * @param data 080 수신 거부 상세 조회용 request 데이터
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
    * @returns GetBlacksResponse
    */
-  async getBlacks(data?: GetBlacksRequest): Promise<GetBlacksResponse> {
+  async getBlacks(
+    data?: GetBlacksRequest,
+    options?: RequestOptions,
+  ): Promise<GetBlacksResponse> {
     let payload: GetBlacksFinalizeRequest = { type: 'DENIAL' };
     if (data) {
       payload = new GetBlacksFinalizeRequest(data);
@@ -878,19 +2006,51 @@ export class SolapiMessageService {
     const requestConfig: RequestConfig = {
       method: 'GET',
       url: endpoint,
+      ...options,
     };
     return defaultFetcher<never, GetBlacksResponse>(
-      this.authInfo,
+      this.fetcherConfig,
       requestConfig,
     );
   }
 
+  /**
+   * 080 수신 거부 목록을 nextKey를 따라가며 하나씩 조회하는 비동기 반복자
+   * @param data 080 수신 거부 조회 조건, startKey 값이 있을 경우 해당 키부터 조회합니다.
+   * @param paginationOptions 페이지 크기, 최대 항목 수 등 반복자 설정
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
+   */
+  iterateBlacks(
+    data?: GetBlacksRequest,
+    paginationOptions?: PaginationOptions,
+    options?: RequestOptions,
+  ): AsyncGenerator<Black, void, undefined> {
+    return paginate(
+      async (startKey, limit) => {
+        const response = await this.getBlacks(
+          {...data, startKey, limit: limit ?? data?.limit},
+          options,
+        );
+        return {
+          items: Object.values(response.blackList),
+          nextKey: response.nextKey,
+        };
+      },
+      data?.startKey,
+      paginationOptions,
+    );
+  }
+
   /**
    * 수신 거부 그룹 조회
    * @param data 수신 거부 그룹 조회용 request 데이터
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
    * @returns GetBlockGroupsResponse
    */
-  async getBlockGroups(data?: GetBlockGroupsRequest): Promise<GetBlockGroupsResponse> {
+  async getBlockGroups(
+    data?: GetBlockGroupsRequest,
+    options?: RequestOptions,
+  ): Promise<GetBlockGroupsResponse> {
     let payload: GetBlockGroupsFinalizeRequest = { };
     if (data) {
       payload = new GetBlockGroupsFinalizeRequest(data);
@@ -903,10 +2063,38 @@ export class SolapiMessageService {
     const requestConfig: RequestConfig = {
       method: 'GET',
       url: endpoint,
+      ...options,
     };
     return defaultFetcher<never, GetBlockGroupsResponse>(
-      this.authInfo,
+      this.fetcherConfig,
       requestConfig,
     );
   }
+
+  /**
+   * 수신 거부 그룹 목록을 nextKey를 따라가며 하나씩 조회하는 비동기 반복자
+   * @param data 수신 거부 그룹 조회 조건, startKey 값이 있을 경우 해당 키부터 조회합니다.
+   * @param paginationOptions 페이지 크기, 최대 항목 수 등 반복자 설정
+   * @param options 요청 취소(AbortSignal), 타임아웃 등 요청 단위 옵션
+   */
+  iterateBlockGroups(
+    data?: GetBlockGroupsRequest,
+    paginationOptions?: PaginationOptions,
+    options?: RequestOptions,
+  ): AsyncGenerator<BlockGroup, void, undefined> {
+    return paginate(
+      async (startKey, limit) => {
+        const response = await this.getBlockGroups(
+          {...data, startKey, limit: limit ?? data?.limit},
+          options,
+        );
+        return {
+          items: Object.values(response.blockGroups),
+          nextKey: response.nextKey,
+        };
+      },
+      data?.startKey,
+      paginationOptions,
+    );
+  }
 }
@@ -24,6 +24,8 @@ export type CountForCharge = {
   rcs_lms: CountryChargeStatus;
   rcs_mms: CountryChargeStatus;
   rcs_tpl: CountryChargeStatus;
+  voice: CountryChargeStatus;
+  fax: CountryChargeStatus;
 };
 
 export type CommonCashResponse = {
@@ -45,6 +47,8 @@ export type MessageTypeRecord = {
   rcs_lms: number;
   rcs_mms: number;
   rcs_tpl: number;
+  voice: number;
+  fax: number;
 };
 
 export type App = {
@@ -54,6 +58,18 @@ export type App = {
 
 export type Log = Array<object>;
 
+/**
+ * @description 그룹 상태
+ * PENDING: 메시지 추가 가능, SCHEDULED: 예약 발송 대기, SENDING: 발송 중, COMPLETE: 발송 완료, FAILED: 발송 실패, DELETED: 삭제됨
+ */
+export type GroupStatus =
+  | 'PENDING'
+  | 'SCHEDULED'
+  | 'SENDING'
+  | 'COMPLETE'
+  | 'FAILED'
+  | 'DELETED';
+
 export type GroupId = string;
 
 export type Group = {
@@ -74,7 +90,7 @@ export type Group = {
   sdkVersion: string;
   osPlatform: string;
   log: Log;
-  status: string;
+  status: GroupStatus;
   scheduledDate?: string;
   dateSent?: string;
   dateCompleted?: string;
@@ -0,0 +1,90 @@
+import {FetchFunction} from '../lib/defaultFetcher';
+import {RetryPolicy} from '../lib/retryPolicy';
+import {Middleware} from '../lib/middleware';
+import {RateLimitOptions} from '../lib/rateLimiter';
+import {CredentialProvider} from '../lib/credentialProvider';
+import {MessagePriceTable} from '../lib/costEstimator';
+import {NightAdGuardMode} from '../lib/nightAdGuard';
+import {AdvertisingOptions} from '../lib/advertising';
+
+/**
+ * @name SolapiMessageServiceOptions
+ * @description SolapiMessageService 생성 시 부가적으로 설정할 수 있는 옵션 목록
+ */
+export interface SolapiMessageServiceOptions {
+  /**
+   * API 요청 기본 주소
+   * 값 미기입시 https://api.solapi.com 으로 설정됩니다.
+   */
+  baseUrl?: string;
+
+  /**
+   * API 요청 시 사용할 fetch 구현체
+   * 테스트용 서버나 내부 게이트웨이를 거쳐야 할 경우 직접 구현한 fetch 함수를 넣을 수 있습니다.
+   * 값 미기입시 cross-fetch를 사용합니다.
+   */
+  fetch?: FetchFunction;
+
+  /**
+   * 네트워크 오류, 5xx 응답 등 일시적인 오류 발생 시 적용할 재시도 정책
+   * 기입한 값만 기본 정책에 덮어씌워지며, false일 경우 재시도하지 않습니다.
+   * 발송 등 POST, PUT 요청은 retryNonIdempotent 값을 true로 설정해야 모든 재시도 대상 오류에 대해 재시도합니다.
+   */
+  retry?: Partial<RetryPolicy> | false;
+
+  /**
+   * 모든 API 요청에 적용할 기본 요청 제한 시간(ms), 재시도 및 재시도 대기 시간을 모두 포함합니다.
+   * 각 메소드 호출 시 options 파라미터의 timeout 값으로 덮어씌울 수 있습니다.
+   * 값 미기입시 제한 시간 없이 요청합니다.
+   */
+  timeout?: number;
+
+  /**
+   * 모든 API 요청 전후에 실행할 미들웨어 목록
+   * 헤더 추가, 요청/응답 로깅, 소요 시간 측정, 특정 요청 차단 등에 사용할 수 있습니다.
+   * 생성 이후에는 SolapiMessageService의 use 메소드로 추가할 수 있습니다.
+   */
+  middlewares?: Array<Middleware>;
+
+  /**
+   * 클라이언트 측 요청 제한 설정(동시 요청 수, 초당 요청 수)
+   * 메시지, 카카오, 스토리지 등 API 주소 구분 별로 따로 제한되며, 제한을 넘는 요청은 대기열에서 순서대로 처리됩니다.
+   * 429 응답을 받을 경우 해당 구분의 요청을 잠시 멈춥니다. 값 미기입시 요청을 제한하지 않습니다.
+   */
+  rateLimit?: RateLimitOptions;
+
+  /**
+   * 요청 시마다 인증 정보(API Key/Secret 또는 Access Token)를 반환하는 인증 정보 제공 함수
+   * environmentCredentials, fileCredentials 또는 비밀 저장소에서 값을 가져오는 비동기 함수를 넣을 수 있으며,
+   * 값이 있을 경우 생성자에 넣은 API Key, API Secret Key 대신 사용됩니다.
+   */
+  credentials?: CredentialProvider;
+
+  /**
+   * 발송 전 예상 비용 계산 시 사용할 메시지 유형 별 건당 단가
+   * 계정에 적용된 단가는 SOLAPI 콘솔에서 확인할 수 있습니다.
+   */
+  priceTable?: MessagePriceTable;
+
+  /**
+   * 알림톡 메시지 검증 시 조회한 알림톡 템플릿을 재사용할 시간(ms)
+   * 값 미기입시 5분(300000ms)으로 설정됩니다.
+   */
+  alimtalkTemplateCacheTtl?: number;
+
+  /**
+   * 광고성 메시지를 야간 시간(KST 21:00 ~ 08:00)에 발송하려 할 경우의 처리 방식
+   * reject일 경우 NightAdvertisingError 에러가 발생하며, reschedule일 경우 발송 요청 전체가 다음 08:00(KST)으로 예약 발송됩니다.
+   * 발송 시각은 scheduledDate 값이 있을 경우 해당 값으로, 없을 경우 현재 시각으로 판단합니다. 값 미기입시 제한하지 않습니다.
+   * send, sendBulk 외에 sendMany, sendOneFuture, sendManyFuture, sendGroup, reserveGroup(MessageGroup 포함)에도 적용되며,
+   * 예약할 수 없는 sendOne은 reschedule일 경우에도 NightAdvertisingError 에러가 발생합니다.
+   * 야간 광고 수신에 동의한 수신자에게 발송할 경우 send, sendBulk는 요청 설정의 allowNightAds 값으로, 그 외 메소드는 요청 단위 옵션의 allowNightAds 값으로 제한을 적용하지 않을 수 있습니다.
+   */
+  nightAdGuard?: NightAdGuardMode;
+
+  /**
+   * 광고성 문자 발송 시 메시지 내용에 자동으로 추가할 전송자 명칭, 080 무료수신거부 번호
+   * 메시지 또는 발송 요청 설정의 advertising 값이 true일 경우 사용되며, 수신거부 번호가 없을 경우 광고성 문자를 발송할 수 없습니다.
+   */
+  advertising?: AdvertisingOptions;
+}